@@ -3,15 +3,30 @@
 // This file is automatically updated during development when running `dev.ts`.
 
 import * as $_app from "./routes/_app.tsx";
+import * as $admin_claims from "./routes/admin/claims.tsx";
+import * as $api_admin_budget from "./routes/api/admin/budget.ts";
+import * as $api_admin_claims from "./routes/api/admin/claims.ts";
+import * as $api_admin_review_claims from "./routes/api/admin/review-claims.ts";
+import * as $api_admin_stuck_claims from "./routes/api/admin/stuck-claims.ts";
+import * as $api_admin_whitelist_audit from "./routes/api/admin/whitelist-audit.ts";
+import * as $api_admin_whitelist_diff from "./routes/api/admin/whitelist-diff.ts";
+import * as $api_admin_whitelist_export from "./routes/api/admin/whitelist-export.ts";
+import * as $api_admin_whitelist_overrides from "./routes/api/admin/whitelist-overrides.ts";
+import * as $api_claim_nonce from "./routes/api/claim-nonce.ts";
 import * as $api_claim_status from "./routes/api/claim-status.ts";
 import * as $api_claim from "./routes/api/claim.ts";
+import * as $api_claim_id_ from "./routes/api/claim/[id].ts";
 import * as $api_ethos_score from "./routes/api/ethos-score.ts";
 import * as $api_ethos_users from "./routes/api/ethos-users.ts";
 import * as $api_search_users from "./routes/api/search-users.ts";
 import * as $api_sync_whitelist from "./routes/api/sync-whitelist.ts";
+import * as $api_sync_whitelist_runs from "./routes/api/sync-whitelist/runs.ts";
+import * as $api_transfer_allowance from "./routes/api/transfer-allowance.ts";
 import * as $api_transfers from "./routes/api/transfers.ts";
 import * as $api_vouched_users from "./routes/api/vouched-users.ts";
+import * as $api_whitelist from "./routes/api/whitelist.ts";
 import * as $index from "./routes/index.tsx";
+import * as $AdminClaims from "./islands/AdminClaims.tsx";
 import * as $ClaimReward from "./islands/ClaimReward.tsx";
 import * as $ConnectWallet from "./islands/ConnectWallet.tsx";
 import * as $EthosStatus from "./islands/EthosStatus.tsx";
@@ -26,17 +41,32 @@ import { type Manifest } from "$fresh/server.ts";
 const manifest = {
   routes: {
     "./routes/_app.tsx": $_app,
+    "./routes/admin/claims.tsx": $admin_claims,
+    "./routes/api/admin/budget.ts": $api_admin_budget,
+    "./routes/api/admin/claims.ts": $api_admin_claims,
+    "./routes/api/admin/review-claims.ts": $api_admin_review_claims,
+    "./routes/api/admin/stuck-claims.ts": $api_admin_stuck_claims,
+    "./routes/api/admin/whitelist-audit.ts": $api_admin_whitelist_audit,
+    "./routes/api/admin/whitelist-diff.ts": $api_admin_whitelist_diff,
+    "./routes/api/admin/whitelist-export.ts": $api_admin_whitelist_export,
+    "./routes/api/admin/whitelist-overrides.ts": $api_admin_whitelist_overrides,
+    "./routes/api/claim-nonce.ts": $api_claim_nonce,
     "./routes/api/claim-status.ts": $api_claim_status,
     "./routes/api/claim.ts": $api_claim,
+    "./routes/api/claim/[id].ts": $api_claim_id_,
     "./routes/api/ethos-score.ts": $api_ethos_score,
     "./routes/api/ethos-users.ts": $api_ethos_users,
     "./routes/api/search-users.ts": $api_search_users,
     "./routes/api/sync-whitelist.ts": $api_sync_whitelist,
+    "./routes/api/sync-whitelist/runs.ts": $api_sync_whitelist_runs,
+    "./routes/api/transfer-allowance.ts": $api_transfer_allowance,
     "./routes/api/transfers.ts": $api_transfers,
     "./routes/api/vouched-users.ts": $api_vouched_users,
+    "./routes/api/whitelist.ts": $api_whitelist,
     "./routes/index.tsx": $index,
   },
   islands: {
+    "./islands/AdminClaims.tsx": $AdminClaims,
     "./islands/ClaimReward.tsx": $ClaimReward,
     "./islands/ConnectWallet.tsx": $ConnectWallet,
     "./islands/EthosStatus.tsx": $EthosStatus,
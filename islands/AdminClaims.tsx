@@ -0,0 +1,352 @@
+import { useSignal } from "@preact/signals";
+import { useEffect } from "preact/hooks";
+import { truncateAddress } from "../lib/wallet.ts";
+
+type ClaimStatus = "review" | "reserved" | "minted" | "confirmed" | "failed";
+
+interface AdminClaim {
+  id: string;
+  status: ClaimStatus;
+  recipient: string;
+  requestedBy: string;
+  amount: string;
+  xp: number;
+  xpTotal: number;
+  policyVersion?: string;
+  txHash?: string;
+  error?: string;
+  reviewReason?: string;
+  flagged: boolean;
+  notes: { text: string; at: number }[];
+  timestamp: number;
+}
+
+interface ClaimsResponse {
+  totals: {
+    count: number;
+    flagged: number;
+    totalClaimed: string;
+    allTimeClaimed: string;
+    byStatus: Record<ClaimStatus, { count: number; amount: string }>;
+  };
+  xpDistribution: { label: string; count: number }[];
+  claims: AdminClaim[];
+  error?: string;
+}
+
+// The admin key is kept for the browser session only
+const API_KEY_STORAGE = "ethosusd-admin-key";
+
+const STATUS_CLASSES: Record<ClaimStatus, string> = {
+  review: "text-amber-400",
+  reserved: "text-gray-400",
+  minted: "text-sky-400",
+  confirmed: "text-emerald-400",
+  failed: "text-red-400",
+};
+
+export default function AdminClaims() {
+  const apiKey = useSignal("");
+  const status = useSignal("");
+  const from = useSignal("");
+  const to = useSignal("");
+  const minAmount = useSignal("");
+  const maxAmount = useSignal("");
+  const flagged = useSignal("");
+  const data = useSignal<ClaimsResponse | null>(null);
+  const isLoading = useSignal(false);
+  const error = useSignal<string | null>(null);
+
+  const formatAmount = (units: string) =>
+    (Number(units) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+  const authHeaders = (): HeadersInit =>
+    apiKey.value ? { Authorization: `Bearer ${apiKey.value}` } : {};
+
+  const buildQuery = (extra: Record<string, string> = {}) => {
+    const params = new URLSearchParams(extra);
+    if (status.value) params.set("status", status.value);
+    if (from.value) params.set("from", from.value);
+    if (to.value) params.set("to", to.value);
+    if (minAmount.value) params.set("minAmount", minAmount.value);
+    if (maxAmount.value) params.set("maxAmount", maxAmount.value);
+    if (flagged.value) params.set("flagged", flagged.value);
+    return params.toString();
+  };
+
+  const fetchClaims = async () => {
+    isLoading.value = true;
+    error.value = null;
+    sessionStorage.setItem(API_KEY_STORAGE, apiKey.value);
+
+    try {
+      const response = await fetch(`/api/admin/claims?${buildQuery({ limit: "500" })}`, {
+        headers: authHeaders(),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        error.value = body.error || "Failed to load claims";
+        data.value = null;
+      } else {
+        data.value = body;
+      }
+    } catch (err) {
+      console.error("Error loading claims:", err);
+      error.value = "Failed to load claims";
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  const exportCsv = async () => {
+    const response = await fetch(`/api/admin/claims?${buildQuery({ format: "csv" })}`, {
+      headers: authHeaders(),
+    });
+    if (!response.ok) {
+      error.value = (await response.json()).error || "Export failed";
+      return;
+    }
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `claims-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const annotate = async (claimId: string, annotation: { flagged?: boolean; note?: string }) => {
+    const response = await fetch("/api/admin/claims", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ claimId, ...annotation }),
+    });
+    const body = await response.json();
+    if (!body.success) {
+      error.value = body.error || "Failed to update claim";
+      return;
+    }
+    await fetchClaims();
+  };
+
+  const addNote = (claimId: string) => {
+    const note = prompt("Note for this claim");
+    if (note) {
+      annotate(claimId, { note });
+    }
+  };
+
+  const review = async (claimId: string, action: "approve" | "reject" | "revoke") => {
+    const reason = action === "approve"
+      ? undefined
+      : prompt(action === "reject" ? "Reason for rejecting this claim" : "Reason for revoking this claim before it mints");
+    if (reason === null) {
+      return;
+    }
+    const response = await fetch("/api/admin/review-claims", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ claimId, action, reason }),
+    });
+    const body = await response.json();
+    if (!body.success) {
+      error.value = body.error || "Review action failed";
+      return;
+    }
+    await fetchClaims();
+  };
+
+  useEffect(() => {
+    apiKey.value = sessionStorage.getItem(API_KEY_STORAGE) ?? "";
+    fetchClaims();
+  }, []);
+
+  const maxBucket = Math.max(1, ...(data.value?.xpDistribution.map((bucket) => bucket.count) ?? []));
+
+  return (
+    <div class="space-y-6">
+      <div class="card p-6">
+        <div class="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div class="md:col-span-4">
+            <label class="label">Admin API key</label>
+            <input
+              type="password"
+              value={apiKey.value}
+              onInput={(e) => apiKey.value = (e.target as HTMLInputElement).value}
+              placeholder="SYNC_API_KEY"
+              class="input"
+            />
+          </div>
+          <div>
+            <label class="label">Status</label>
+            <select value={status.value} onChange={(e) => status.value = (e.target as HTMLSelectElement).value} class="input">
+              <option value="">All</option>
+              {Object.keys(STATUS_CLASSES).map((s) => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+          <div>
+            <label class="label">From</label>
+            <input type="date" value={from.value} onInput={(e) => from.value = (e.target as HTMLInputElement).value} class="input" />
+          </div>
+          <div>
+            <label class="label">To</label>
+            <input type="date" value={to.value} onInput={(e) => to.value = (e.target as HTMLInputElement).value} class="input" />
+          </div>
+          <div>
+            <label class="label">Flagged</label>
+            <select value={flagged.value} onChange={(e) => flagged.value = (e.target as HTMLSelectElement).value} class="input">
+              <option value="">All</option>
+              <option value="true">Flagged</option>
+              <option value="false">Not flagged</option>
+            </select>
+          </div>
+          <div>
+            <label class="label">Min amount</label>
+            <input value={minAmount.value} onInput={(e) => minAmount.value = (e.target as HTMLInputElement).value} placeholder="0" class="input" />
+          </div>
+          <div>
+            <label class="label">Max amount</label>
+            <input value={maxAmount.value} onInput={(e) => maxAmount.value = (e.target as HTMLInputElement).value} placeholder="any" class="input" />
+          </div>
+          <div class="md:col-span-2 flex items-end gap-3">
+            <button type="button" onClick={fetchClaims} disabled={isLoading.value} class="btn-primary flex-1">
+              {isLoading.value ? "Loading..." : "Apply filters"}
+            </button>
+            <button type="button" onClick={exportCsv} class="btn-secondary">
+              Export CSV
+            </button>
+          </div>
+        </div>
+        {error.value && (
+          <div class="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">{error.value}</div>
+        )}
+      </div>
+
+      {data.value && (
+        <>
+          <div class="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div class="card p-4">
+              <p class="text-gray-500 text-sm">Claims</p>
+              <p class="text-2xl font-bold text-white">{data.value.totals.count}</p>
+            </div>
+            <div class="card p-4">
+              <p class="text-gray-500 text-sm">Confirmed (filtered)</p>
+              <p class="text-2xl font-bold text-white">{formatAmount(data.value.totals.totalClaimed)}</p>
+            </div>
+            <div class="card p-4">
+              <p class="text-gray-500 text-sm">Confirmed (all time)</p>
+              <p class="text-2xl font-bold text-white">{formatAmount(data.value.totals.allTimeClaimed)}</p>
+            </div>
+            <div class="card p-4">
+              <p class="text-gray-500 text-sm">Flagged</p>
+              <p class="text-2xl font-bold text-white">{data.value.totals.flagged}</p>
+            </div>
+          </div>
+
+          <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div class="card p-6">
+              <h3 class="text-sm font-medium text-gray-400 mb-3">By status</h3>
+              <ul class="space-y-1 text-sm">
+                {Object.entries(data.value.totals.byStatus).map(([s, { count, amount }]) => (
+                  <li key={s} class="flex justify-between">
+                    <span class={`capitalize ${STATUS_CLASSES[s as ClaimStatus]}`}>{s}</span>
+                    <span class="text-gray-300">{count} · {formatAmount(amount)} $ethosUSD</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div class="card p-6">
+              <h3 class="text-sm font-medium text-gray-400 mb-3">XP per claim</h3>
+              <ul class="space-y-1 text-sm">
+                {data.value.xpDistribution.map((bucket) => (
+                  <li key={bucket.label} class="flex items-center gap-3">
+                    <span class="w-24 text-gray-400">{bucket.label}</span>
+                    <div class="flex-1 h-2 bg-ethos-dark rounded">
+                      <div class="h-2 bg-ethos-primary rounded" style={{ width: `${(bucket.count / maxBucket) * 100}%` }} />
+                    </div>
+                    <span class="w-10 text-right text-gray-300">{bucket.count}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div class="card overflow-x-auto">
+            <table class="w-full text-sm">
+              <thead class="text-gray-500 text-left border-b border-ethos-border/50">
+                <tr>
+                  <th class="p-3">Date</th>
+                  <th class="p-3">Recipient</th>
+                  <th class="p-3 text-right">Amount</th>
+                  <th class="p-3 text-right">XP</th>
+                  <th class="p-3">Status</th>
+                  <th class="p-3">Notes</th>
+                  <th class="p-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.value.claims.map((claim) => (
+                  <tr key={claim.id} class={`border-b border-ethos-border/30 ${claim.flagged ? "bg-amber-500/5" : ""}`}>
+                    <td class="p-3 text-gray-400">{new Date(claim.timestamp).toLocaleString()}</td>
+                    <td class="p-3 font-mono text-gray-300">
+                      {claim.txHash ? (
+                        <a
+                          href={`https://explore.tempo.xyz/receipt/${claim.txHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          class="text-ethos-accent hover:underline"
+                        >
+                          {truncateAddress(claim.recipient)}
+                        </a>
+                      ) : truncateAddress(claim.recipient)}
+                    </td>
+                    <td class="p-3 text-right text-white">{formatAmount(claim.amount)}</td>
+                    <td class="p-3 text-right text-gray-300">{claim.xp.toLocaleString()}</td>
+                    <td class="p-3">
+                      <span class={`capitalize ${STATUS_CLASSES[claim.status]}`}>{claim.status}</span>
+                      {(claim.reviewReason || claim.error) && (
+                        <p class="text-xs text-gray-500">{claim.reviewReason || claim.error}</p>
+                      )}
+                    </td>
+                    <td class="p-3 text-xs text-gray-400">
+                      {claim.notes.map((note) => <p key={note.at}>{note.text}</p>)}
+                    </td>
+                    <td class="p-3 whitespace-nowrap text-right space-x-3">
+                      {claim.status === "review" && (
+                        <>
+                          <button type="button" onClick={() => review(claim.id, "approve")} class="text-emerald-400 hover:underline">
+                            Approve
+                          </button>
+                          <button type="button" onClick={() => review(claim.id, "reject")} class="text-red-400 hover:underline">
+                            Reject
+                          </button>
+                        </>
+                      )}
+                      {claim.status === "reserved" && (
+                        <button type="button" onClick={() => review(claim.id, "revoke")} class="text-red-400 hover:underline">
+                          Revoke
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => annotate(claim.id, { flagged: !claim.flagged })}
+                        class="text-amber-400 hover:underline"
+                      >
+                        {claim.flagged ? "Unflag" : "Flag"}
+                      </button>
+                      <button type="button" onClick={() => addNote(claim.id)} class="text-ethos-accent hover:underline">
+                        Note
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {data.value.claims.length === 0 && (
+              <p class="p-6 text-center text-gray-500">No claims match these filters</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
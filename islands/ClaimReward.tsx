@@ -1,31 +1,78 @@
 import { useSignal, useComputed } from "@preact/signals";
 import { useEffect } from "preact/hooks";
-import { getConnectedAccount, watchAccount, onDisconnect, signMessage, getClaimMessage } from "../lib/wallet.ts";
+import { getConnectedAccount, watchAccount, onDisconnect, signTypedData, truncateAddress } from "../lib/wallet.ts";
+
+interface ClaimHistoryEntry {
+  id: string;
+  status: "review" | "reserved" | "minted" | "confirmed" | "failed";
+  recipient: string;
+  txHash?: string;
+  timestamp: number;
+  amount: string;
+  xp: number;
+  xpTotal: number;
+  policyVersion?: string;
+}
+
+interface MintHistory {
+  mints: {
+    to: string;
+    amount: string;
+    txHash: string;
+    blockNumber: number;
+    claimId?: string; // Missing for mints made before the claim ledger
+  }[];
+  totalMinted: string;
+  totalMintedFormatted: string;
+  unrecorded: number;
+  indexComplete: boolean;
+}
 
 interface ClaimStatus {
   canClaim: boolean;
   amount: string;
   amountFormatted: string;
-  xp: number;
+  xp: number; // Claimable XP (earned since the last claim)
+  xpTotal: number;
+  paidXp: number;
+  paidAmountFormatted: string;
+  policyVersion: string; // Reward policy that priced the amount
   score?: number;
+  profileId?: number;
+  addresses: string[]; // Addresses linked to the Ethos profile that can receive the mint
   alreadyClaimed: boolean;
-  claimRecord?: {
-    txHash: string;
-    timestamp: number;
-    amount: string;
-  };
+  claimRecord?: ClaimHistoryEntry;
+  history: ClaimHistoryEntry[];
+  mintHistory: MintHistory; // Mints received on chain, independent of the current balance
   error?: string;
 }
 
+interface ClaimProgress {
+  claimId: string;
+  status: ClaimHistoryEntry["status"];
+  done: boolean;
+  message: string;
+  txHash?: string;
+  amountFormatted: string;
+}
+
+// How often and how long to poll a queued claim
+const CLAIM_POLL_INTERVAL_MS = 2000;
+const CLAIM_POLL_ATTEMPTS = 90;
+
 export default function ClaimReward() {
   const address = useSignal<string | null>(null);
   const claimStatus = useSignal<ClaimStatus | null>(null);
+  const recipient = useSignal<string | null>(null);
   const isLoading = useSignal(false);
   const isClaiming = useSignal(false);
+  const claimMessage = useSignal<string | null>(null);
   const claimResult = useSignal<{
     success: boolean;
+    pending?: boolean; // Accepted but not minted yet (queued or in review)
     txHash?: string;
     amountFormatted?: string;
+    message?: string;
     error?: string;
   } | null>(null);
 
@@ -39,6 +86,7 @@ export default function ClaimReward() {
       const response = await fetch(`/api/claim-status?address=${addr}`);
       const data = await response.json();
       claimStatus.value = data;
+      recipient.value = addr.toLowerCase();
     } catch (error) {
       console.error("Error fetching claim status:", error);
       claimStatus.value = null;
@@ -47,6 +95,23 @@ export default function ClaimReward() {
     }
   };
 
+  // Poll a queued claim until it is minted, fails or is held for review
+  const pollClaim = async (claimId: string): Promise<ClaimProgress | null> => {
+    let progress: ClaimProgress | null = null;
+    for (let attempt = 0; attempt < CLAIM_POLL_ATTEMPTS; attempt++) {
+      const response = await fetch(`/api/claim/${claimId}`);
+      if (response.ok) {
+        progress = await response.json();
+        claimMessage.value = progress!.message;
+        if (progress!.done || progress!.status === "review") {
+          return progress;
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, CLAIM_POLL_INTERVAL_MS));
+    }
+    return progress;
+  };
+
   const handleClaim = async () => {
     if (!address.value || !claimStatus.value?.canClaim) return;
 
@@ -54,14 +119,24 @@ export default function ClaimReward() {
     claimResult.value = null;
 
     try {
-      // Generate timestamp and message for signing
-      const timestamp = Date.now();
-      const message = getClaimMessage(address.value, timestamp);
+      // Get a single-use nonce and the typed claim data to sign
+      const nonceResponse = await fetch(
+        `/api/claim-nonce?address=${address.value}&recipient=${recipient.value ?? address.value}`
+      );
+      const nonceData = await nonceResponse.json();
+      if (!nonceResponse.ok) {
+        claimResult.value = {
+          success: false,
+          error: nonceData.error || "Failed to start claim. Please try again.",
+        };
+        isClaiming.value = false;
+        return;
+      }
 
       // Request signature from wallet
       let signature: string;
       try {
-        signature = await signMessage(message, address.value as `0x${string}`);
+        signature = await signTypedData(nonceData.typedData, address.value as `0x${string}`);
       } catch (signError) {
         const errorMessage = signError instanceof Error ? signError.message : String(signError);
         if (errorMessage.includes("User rejected") || errorMessage.includes("user rejected") || errorMessage.includes("denied")) {
@@ -86,18 +161,35 @@ export default function ClaimReward() {
         body: JSON.stringify({ 
           address: address.value,
           signature,
-          timestamp,
+          nonce: nonceData.nonce,
         }),
       });
 
       const data = await response.json();
 
       if (data.success) {
-        claimResult.value = {
-          success: true,
-          txHash: data.txHash,
-          amountFormatted: data.amountFormatted,
-        };
+        // The claim is queued - follow it until it settles
+        claimMessage.value = data.message;
+        const progress = await pollClaim(data.claimId) ?? data;
+
+        if (progress.status === "confirmed") {
+          claimResult.value = {
+            success: true,
+            txHash: progress.txHash,
+            amountFormatted: progress.amountFormatted,
+          };
+        } else if (progress.status === "failed") {
+          claimResult.value = {
+            success: false,
+            error: progress.message,
+          };
+        } else {
+          claimResult.value = {
+            success: false,
+            pending: true,
+            message: progress.message,
+          };
+        }
         // Refresh claim status
         fetchClaimStatus(address.value);
       } else {
@@ -107,12 +199,14 @@ export default function ClaimReward() {
         };
       }
     } catch (error) {
+      console.error("Error claiming:", error);
       claimResult.value = {
         success: false,
         error: "Failed to process claim. Please try again.",
       };
     } finally {
       isClaiming.value = false;
+      claimMessage.value = null;
     }
   };
 
@@ -146,8 +240,8 @@ export default function ClaimReward() {
     };
   }, []);
 
-  // Don't show if not connected or already claimed
-  if (!address.value || claimStatus.value?.alreadyClaimed) {
+  // Don't show if not connected
+  if (!address.value) {
     return null;
   }
 
@@ -175,39 +269,55 @@ export default function ClaimReward() {
               <path class="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
             </svg>
           </div>
-        ) : claimStatus.value?.alreadyClaimed ? (
-          // Already claimed state
+        ) : claimStatus.value?.alreadyClaimed && !claimStatus.value.canClaim ? (
+          // Already claimed everything earned so far
           <div class="text-center py-4">
             <div class="w-16 h-16 rounded-full bg-emerald-500/20 flex items-center justify-center mx-auto mb-4">
               <svg class="w-8 h-8 text-emerald-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 13l4 4L19 7" />
               </svg>
             </div>
-            <h3 class="text-lg font-semibold text-white mb-2">Already Claimed!</h3>
-            <p class="text-gray-400 mb-4">
-              You claimed <span class="text-white font-semibold">{(Number(claimStatus.value.claimRecord?.amount) / 1_000_000).toFixed(0)} $ethosUSD</span>
+            <h3 class="text-lg font-semibold text-white mb-2">All Caught Up!</h3>
+            <p class="text-gray-400 mb-2">
+              You've claimed{" "}
+              <span class="text-white font-semibold">
+                {formatNumber(
+                  Number(claimStatus.value.paidAmountFormatted) || Number(claimStatus.value.mintHistory.totalMintedFormatted)
+                )}{" "}
+                $ethosUSD
+              </span>{" "}
+              so far
             </p>
-            {claimStatus.value.claimRecord?.txHash && (
-              <a
-                href={`https://explore.tempo.xyz/receipt/${claimStatus.value.claimRecord.txHash}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                class="text-ethos-accent hover:underline text-sm"
-              >
-                View transaction →
-              </a>
+            {claimStatus.value.error && (
+              <p class="text-gray-500 text-sm mb-4">{claimStatus.value.error}</p>
             )}
+            <a
+              href="https://ethos.network"
+              target="_blank"
+              rel="noopener noreferrer"
+              class="text-ethos-accent hover:underline text-sm"
+            >
+              Earn more Contributor XP on Ethos →
+            </a>
           </div>
         ) : claimStatus.value?.canClaim ? (
           // Can claim state
           <div>
             <div class="text-center mb-6">
               <div class="text-4xl font-bold text-gradient mb-2">
-                {formatNumber(claimStatus.value.xp)} $ethosUSD
+                {formatNumber(Number(claimStatus.value.amountFormatted))} $ethosUSD
               </div>
-              <p class="text-gray-400">
-                Based on your <span class="text-ethos-accent">{formatNumber(claimStatus.value.xp)} Contributor XP</span>
-              </p>
+              {claimStatus.value.paidXp > 0 ? (
+                <p class="text-gray-400">
+                  Based on <span class="text-ethos-accent">{formatNumber(claimStatus.value.xp)} new Contributor XP</span> since
+                  your last claim ({formatNumber(claimStatus.value.xpTotal)} total)
+                </p>
+              ) : (
+                <p class="text-gray-400">
+                  Based on your <span class="text-ethos-accent">{formatNumber(claimStatus.value.xp)} Contributor XP</span>
+                </p>
+              )}
+              <p class="text-gray-500 text-xs mt-1">Reward policy v{claimStatus.value.policyVersion}</p>
             </div>
 
             {claimResult.value?.success ? (
@@ -230,12 +340,35 @@ export default function ClaimReward() {
                   View transaction →
                 </a>
               </div>
+            ) : claimResult.value?.pending ? (
+              <div class="mb-4 p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-amber-400 text-sm">
+                {claimResult.value.message}
+              </div>
             ) : claimResult.value?.error ? (
               <div class="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
                 {claimResult.value.error}
               </div>
             ) : null}
 
+            {!claimResult.value?.success && claimStatus.value.addresses?.length > 1 && (
+              <div class="mb-4">
+                <label class="label">Send to</label>
+                <select
+                  value={recipient.value ?? address.value}
+                  onChange={(e) => recipient.value = (e.target as HTMLSelectElement).value}
+                  disabled={isClaiming.value}
+                  class="input"
+                >
+                  {claimStatus.value.addresses.map((addr) => (
+                    <option key={addr} value={addr}>
+                      {truncateAddress(addr)}{addr === address.value?.toLowerCase() ? " (connected)" : ""}
+                    </option>
+                  ))}
+                </select>
+                <p class="text-xs text-gray-500 mt-1">Any wallet linked to your Ethos profile can receive the claim</p>
+              </div>
+            )}
+
             {!claimResult.value?.success && (
               <button
                 onClick={handleClaim}
@@ -248,10 +381,10 @@ export default function ClaimReward() {
                       <circle class="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" stroke-width="4" fill="none" />
                       <path class="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
                     </svg>
-                    Claiming...
+                    {claimMessage.value ?? "Claiming..."}
                   </span>
                 ) : (
-                  `Claim ${formatNumber(claimStatus.value.xp)} $ethosUSD`
+                  `Claim ${formatNumber(Number(claimStatus.value.amountFormatted))} $ethosUSD`
                 )}
               </button>
             )}
@@ -286,6 +419,67 @@ export default function ClaimReward() {
             <p class="text-gray-400">Unable to check claim status</p>
           </div>
         )}
+
+        {!isLoading.value && claimStatus.value?.history?.length ? (
+          <div class="mt-6 pt-6 border-t border-ethos-border/50">
+            <h4 class="text-sm font-medium text-gray-400 mb-3">Claim History</h4>
+            <ul class="space-y-2">
+              {claimStatus.value.history.map((claim) => (
+                <li key={claim.id} class="flex items-center justify-between text-sm">
+                  <div>
+                    <span class="text-white font-medium">{formatNumber(Number(claim.amount) / 1_000_000)} $ethosUSD</span>
+                    <span class="text-gray-500 ml-2">{new Date(claim.timestamp).toLocaleDateString()}</span>
+                    <span class="text-gray-500 ml-2">→ {truncateAddress(claim.recipient)}</span>
+                  </div>
+                  <div class="flex items-center gap-3">
+                    <span
+                      class={`capitalize ${
+                        claim.status === "confirmed"
+                          ? "text-emerald-400"
+                          : claim.status === "failed"
+                          ? "text-red-400"
+                          : "text-amber-400"
+                      }`}
+                    >
+                      {claim.status === "reserved" || claim.status === "minted"
+                        ? "pending"
+                        : claim.status === "review"
+                        ? "in review"
+                        : claim.status}
+                    </span>
+                    {claim.txHash && (
+                      <a
+                        href={`https://explore.tempo.xyz/receipt/${claim.txHash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        class="text-ethos-accent hover:underline"
+                      >
+                        View →
+                      </a>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+
+        {!isLoading.value && claimStatus.value?.mintHistory?.mints.length ? (
+          <div class="mt-6 pt-6 border-t border-ethos-border/50">
+            <div class="flex items-center justify-between text-sm">
+              <span class="text-gray-400">Minted to your wallets</span>
+              <span class="text-white font-medium">
+                {formatNumber(Number(claimStatus.value.mintHistory.totalMintedFormatted))} $ethosUSD
+              </span>
+            </div>
+            {claimStatus.value.mintHistory.unrecorded > 0 && (
+              <p class="text-gray-500 text-xs mt-1">
+                Includes {claimStatus.value.mintHistory.unrecorded} mint
+                {claimStatus.value.mintHistory.unrecorded === 1 ? "" : "s"} from before claim history was tracked
+              </p>
+            )}
+          </div>
+        ) : null}
       </div>
     </div>
   );
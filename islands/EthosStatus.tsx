@@ -10,6 +10,8 @@ interface EthosScoreData {
   isAuthorized: boolean;
   isOnChainAuthorized?: boolean;
   minScore: number;
+  tier?: string | null;
+  tierDailyLimit?: string | null;
 }
 
 export default function EthosStatus() {
@@ -132,6 +134,19 @@ export default function EthosStatus() {
             <span class="text-white capitalize">{data.level}</span>
           </div>
 
+          {/* Transfer Tier */}
+          {data.tier && (
+            <div class="flex items-center justify-between">
+              <span class="text-gray-400">Tier</span>
+              <span class="text-right">
+                <span class="text-white capitalize">{data.tier}</span>
+                <span class="block text-xs text-gray-500">
+                  {data.tierDailyLimit ? `Up to ${data.tierDailyLimit} $ethosUSD/day` : "Unlimited transfers"}
+                </span>
+              </span>
+            </div>
+          )}
+
           {/* Authorization Status */}
           <div class="flex items-center justify-between">
             <span class="text-gray-400">Transfer Status</span>
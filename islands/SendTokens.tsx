@@ -221,6 +221,19 @@ export default function SendTokens({
     success.value = null;
 
     try {
+      // Per-tier daily limit - enforced by the app, not on chain. Don't send if it can't be checked.
+      const allowanceResponse = await fetch(`/api/transfer-allowance?address=${account}`).catch(() => null);
+      if (!allowanceResponse?.ok) {
+        const body = await allowanceResponse?.json().catch(() => null);
+        error.value = body?.error || "Couldn't check your daily transfer limit, please try again";
+        return;
+      }
+      const allowance = await allowanceResponse.json();
+      if (allowance.remaining !== null && parseAmount(amountValue) > BigInt(allowance.remaining)) {
+        error.value = `Your ${allowance.tier} tier can send up to ${allowance.dailyLimitFormatted} $ethosUSD a day (${allowance.remainingFormatted} left today)`;
+        return;
+      }
+
       // Ensure we're on the correct chain (0xa5bd = 42429)
       const currentChainId = await window.ethereum?.request({ method: "eth_chainId" }) as string;
       const tempoChainId = "0xa5bd";
@@ -0,0 +1,34 @@
+// Bearer-key protection for admin endpoints
+// Uses SYNC_API_KEY. Without it the endpoints are closed, unless
+// ADMIN_API_INSECURE_OPEN=true opts out for local development (never honored
+// on Deno Deploy).
+
+function isOpenForDevelopment(): boolean {
+  return Deno.env.get("ADMIN_API_INSECURE_OPEN") === "true" && !Deno.env.get("DENO_DEPLOYMENT_ID");
+}
+
+// Returns a 401 response if the request is not authorized (or a 503 if no
+// key is configured), otherwise null
+export function requireApiKey(req: Request): Response | null {
+  const authHeader = req.headers.get("Authorization");
+  const apiKey = Deno.env.get("SYNC_API_KEY");
+
+  if (!apiKey) {
+    if (isOpenForDevelopment()) {
+      return null;
+    }
+    return new Response(JSON.stringify({ error: "SYNC_API_KEY not configured" }), {
+      status: 503,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (authHeader !== `Bearer ${apiKey}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return null;
+}
@@ -0,0 +1,326 @@
+// Claim pipeline - queues, mints and recovers claims
+//
+// /api/claim only reserves a claim; reserved claims form a durable queue in the
+// claim ledger. A single worker (guarded by a KV lease lock) drains it in
+// batches: it assigns admin nonces explicitly (holding the admin nonce lease
+// shared with every admin-key sender, see kv.ts), signs every mint locally and
+// writes its hash to the ledger *before* broadcasting, then sends the batch
+// without waiting between transactions. If the process dies at any point after
+// signing, the reconciler can look the hash up on chain and finalize or roll
+// back the claim.
+
+import { encodeFunctionData, keccak256 } from "viem";
+import { CONTRACTS, TIP20_ABI } from "./contracts.ts";
+import {
+  createTempoPublicClient,
+  createTempoWalletClient,
+  getAdminPrivateKey,
+  getReceiptIfMined,
+  formatTokenAmount,
+  tempoTestnet,
+} from "./tempo.ts";
+import { ClaimTransitionError, getClaimStore, type ClaimRecord, type ClaimReservation } from "./claim-store.ts";
+import { acquireLock, getKv, releaseLock, renewLock, withAdminNonces } from "./kv.ts";
+
+// Claims minted per worker batch
+const MINT_BATCH_SIZE = 25;
+
+// How long to wait for a batch's receipts before leaving it to the reconciler
+const RECEIPT_TIMEOUT_MS = 60 * 1000;
+
+// Worker lease - renewed before every batch
+const WORKER_LOCK_TTL_MS = 3 * 60 * 1000;
+
+// Minted claims without a receipt are rebroadcast after this long
+const REBROADCAST_AFTER_MS = 2 * 60 * 1000;
+
+// Claims sitting in reserved/minted longer than this are reported as stuck
+const STUCK_AFTER_MS = 5 * 60 * 1000;
+
+// Queue message that wakes the worker (see main.ts)
+export const PROCESS_CLAIMS_MESSAGE = { kind: "process-claims" } as const;
+
+export interface ReconcileResult {
+  checked: number;
+  confirmed: string[];
+  failed: string[];
+  rebroadcast: string[];
+  errors: string[];
+}
+
+export interface ClaimQueueResult {
+  batches: number;
+  minted: string[];
+  confirmed: string[];
+  failed: string[];
+  busy: boolean; // Another worker holds the lock
+}
+
+// Reserve a claim and queue it for minting
+// Returns null if the account already has a claim in flight. Claims that would
+// break an issuance limit come back in review and are not queued.
+export async function processClaim(reservation: ClaimReservation): Promise<ClaimRecord | null> {
+  const store = await getClaimStore();
+  const claim = await store.reserve(reservation);
+  if (!claim) {
+    return null;
+  }
+
+  if (claim.status === "review") {
+    console.warn(`Claim ${claim.id} held for review: ${claim.reviewReason}`);
+    return claim;
+  }
+
+  console.log(`Queued claim ${claim.id} for ${claim.address}: ${formatTokenAmount(claim.amount)} $ethosUSD (${claim.xp} XP)`);
+  await wakeClaimWorker();
+  return claim;
+}
+
+// Release a claim held for review and queue it for minting
+export async function approveClaim(id: string): Promise<ClaimRecord> {
+  const store = await getClaimStore();
+  const claim = await store.approve(id);
+  await wakeClaimWorker();
+  return claim;
+}
+
+// Reject a claim held for review, freeing the account
+export async function rejectClaim(id: string, reason: string): Promise<ClaimRecord> {
+  const store = await getClaimStore();
+  const claim = await store.get(id);
+  if (claim?.status !== "review") {
+    throw new Error(`Claim ${id} is not awaiting review`);
+  }
+  return await store.markFailed(id, `Rejected in review: ${reason}`);
+}
+
+// Revoke a claim before it is minted (held for review or still queued),
+// freeing the account. Once the worker has signed its mint the claim can no
+// longer be revoked - a revoke racing the worker leaves the worker's
+// markMinted failing, so the mint is never sent.
+export async function revokeClaim(id: string, reason: string): Promise<ClaimRecord> {
+  const store = await getClaimStore();
+  const claim = await store.get(id);
+  if (claim?.status !== "review" && claim?.status !== "reserved") {
+    throw new Error(`Claim ${id} has already been minted or settled`);
+  }
+  return await store.markFailed(id, `Revoked by admin: ${reason}`);
+}
+
+// Ask the worker to drain the queue now rather than on its next cron tick
+async function wakeClaimWorker(): Promise<void> {
+  try {
+    const kv = await getKv();
+    await kv.enqueue(PROCESS_CLAIMS_MESSAGE);
+  } catch (error) {
+    console.error("Failed to wake claim worker:", error);
+  }
+}
+
+// Apply a transition unless another process (usually the reconciler) got there first
+async function settle(transition: Promise<ClaimRecord>): Promise<boolean> {
+  try {
+    await transition;
+    return true;
+  } catch (error) {
+    if (error instanceof ClaimTransitionError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+// Drain the claim queue: mint reserved claims in batches, oldest first
+export async function processClaimQueue(): Promise<ClaimQueueResult> {
+  const result: ClaimQueueResult = {
+    batches: 0,
+    minted: [],
+    confirmed: [],
+    failed: [],
+    busy: false,
+  };
+
+  const lock = await acquireLock("claim-worker", WORKER_LOCK_TTL_MS);
+  if (!lock) {
+    result.busy = true;
+    return result;
+  }
+
+  try {
+    const store = await getClaimStore();
+    const publicClient = createTempoPublicClient();
+    const walletClient = createTempoWalletClient(getAdminPrivateKey());
+    const adminAddress = walletClient.account!.address;
+    let stalled = false;
+
+    while (await renewLock("claim-worker", lock, WORKER_LOCK_TTL_MS)) {
+      const batch = (await store.list())
+        .filter((claim) => claim.status === "reserved")
+        .sort((a, b) => a.updatedAt - b.updatedAt)
+        .slice(0, MINT_BATCH_SIZE);
+      if (batch.length === 0) {
+        break;
+      }
+      result.batches++;
+
+      // Sign and send the batch with consecutive nonces, without waiting for
+      // confirmations. Each hash is persisted before its broadcast, so from
+      // then on the claim is recoverable by the reconciler. The admin nonce
+      // lease keeps whitelist writes from taking the same nonces meanwhile.
+      const signed: { claim: ClaimRecord; txHash: `0x${string}` }[] = [];
+      let failedToSign = 0;
+      await withAdminNonces(async (renew) => {
+        let nonce = await publicClient.getTransactionCount({ address: adminAddress, blockTag: "pending" });
+
+        for (const claim of batch) {
+          // Lost the lease - leave the rest reserved rather than risk sharing nonces
+          if (!await renew()) {
+            stalled = true;
+            break;
+          }
+
+          let rawTransaction: `0x${string}`;
+          let txHash: `0x${string}`;
+          try {
+            const request = await publicClient.prepareTransactionRequest({
+              account: walletClient.account!,
+              chain: tempoTestnet,
+              to: CONTRACTS.ETHOS_USD_TOKEN,
+              data: encodeFunctionData({
+                abi: TIP20_ABI,
+                functionName: "mint",
+                args: [claim.address as `0x${string}`, claim.amount],
+              }),
+              nonce,
+            });
+            rawTransaction = await walletClient.signTransaction({ ...request, chain: tempoTestnet });
+            txHash = keccak256(rawTransaction);
+            await store.markMinted(claim.id, txHash, { rawTransaction, nonce });
+            signed.push({ claim, txHash });
+            result.minted.push(claim.id);
+          } catch (error) {
+            // The nonce wasn't used, so the next claim takes it
+            failedToSign++;
+            if (await settle(store.markFailed(claim.id, `Failed to sign mint: ${error}`))) {
+              result.failed.push(claim.id);
+            }
+            continue;
+          }
+
+          try {
+            await publicClient.sendRawTransaction({ serializedTransaction: rawTransaction });
+            nonce++;
+          } catch (error) {
+            // Later nonces would queue behind a gap until they time out, so the
+            // rest of the queue stays reserved for the next run. This claim is
+            // left to the reconciler to rebroadcast or settle.
+            console.error(`Claim ${claim.id} left for rebroadcast, stopping the queue:`, error);
+            stalled = true;
+            break;
+          }
+        }
+      });
+
+      await Promise.all(signed.map(async ({ claim, txHash }) => {
+        try {
+          const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash, timeout: RECEIPT_TIMEOUT_MS });
+          if (receipt.status === "success") {
+            if (await settle(store.markConfirmed(claim.id))) {
+              result.confirmed.push(claim.id);
+            }
+          } else if (await settle(store.markFailed(claim.id, `Mint transaction reverted: ${txHash}`))) {
+            result.failed.push(claim.id);
+          }
+        } catch (error) {
+          // Leave the claim minted; the reconciler will settle it against the chain
+          console.error(`Claim ${claim.id} left pending:`, error);
+        }
+      }));
+
+      console.log(`Minted claim batch: ${signed.length} signed, ${failedToSign} failed to sign`);
+      if (stalled) {
+        break;
+      }
+    }
+  } finally {
+    await releaseLock("claim-worker", lock);
+  }
+
+  return result;
+}
+
+// Re-check every in-flight claim against the chain and finalize or roll it back
+export async function reconcilePendingClaims(): Promise<ReconcileResult> {
+  const result: ReconcileResult = {
+    checked: 0,
+    confirmed: [],
+    failed: [],
+    rebroadcast: [],
+    errors: [],
+  };
+
+  const store = await getClaimStore();
+  // Reserved claims belong to the queue worker
+  const pending = (await store.list()).filter((claim) => claim.status === "minted");
+  if (pending.length === 0) {
+    return result;
+  }
+
+  const publicClient = createTempoPublicClient();
+  const adminAddress = createTempoWalletClient(getAdminPrivateKey()).account!.address;
+  const confirmedNonce = await publicClient.getTransactionCount({
+    address: adminAddress,
+    blockTag: "latest",
+  });
+  const now = Date.now();
+
+  for (const claim of pending) {
+    result.checked++;
+    try {
+      const txHash = claim.txHash as `0x${string}`;
+      // An RPC error leaves the claim minted until the next pass
+      const receipt = await getReceiptIfMined(publicClient, txHash);
+
+      if (receipt) {
+        if (receipt.status === "success") {
+          await store.markConfirmed(claim.id);
+          result.confirmed.push(claim.id);
+        } else {
+          await store.markFailed(claim.id, `Mint transaction reverted: ${txHash}`);
+          result.failed.push(claim.id);
+        }
+        continue;
+      }
+
+      // The nonce was used by a different transaction, so this one can never land
+      if (claim.nonce !== undefined && confirmedNonce > claim.nonce) {
+        await store.markFailed(claim.id, `Mint transaction dropped: ${txHash}`);
+        result.failed.push(claim.id);
+        continue;
+      }
+
+      // Still unknown - the broadcast may never have happened
+      if (claim.rawTransaction && now - claim.updatedAt > REBROADCAST_AFTER_MS) {
+        await publicClient.sendRawTransaction({
+          serializedTransaction: claim.rawTransaction as `0x${string}`,
+        }).catch(() => {
+          // Already known to the node
+        });
+        result.rebroadcast.push(claim.id);
+      }
+    } catch (error) {
+      result.errors.push(`Failed to reconcile ${claim.id}: ${error}`);
+    }
+  }
+
+  return result;
+}
+
+// Claims that have been reserved or minted for longer than expected
+export async function getStuckClaims(): Promise<ClaimRecord[]> {
+  const store = await getClaimStore();
+  const cutoff = Date.now() - STUCK_AFTER_MS;
+  return (await store.list())
+    .filter((claim) => (claim.status === "reserved" || claim.status === "minted") && claim.updatedAt < cutoff)
+    .sort((a, b) => a.updatedAt - b.updatedAt);
+}
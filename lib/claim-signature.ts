@@ -0,0 +1,147 @@
+// EIP-712 claim signatures with server-issued, single-use nonces
+//
+// The signed Claim is bound to the Tempo chain id, the ethosUSD token, the
+// address receiving the mint and a nonce handed out by /api/claim-nonce. A
+// nonce is consumed atomically the first time a valid signature for it is
+// accepted, so a signature can never be replayed - not even within the
+// validity window.
+
+import { verifyTypedData } from "viem";
+import { CONTRACTS } from "./contracts.ts";
+import { tempoTestnet } from "./tempo.ts";
+import { getKv } from "./kv.ts";
+
+// How long an issued nonce stays valid (5 minutes)
+export const CLAIM_NONCE_TTL_MS = 5 * 60 * 1000;
+
+export const CLAIM_TYPES = {
+  Claim: [
+    { name: "account", type: "address" },
+    { name: "recipient", type: "address" },
+    { name: "nonce", type: "bytes32" },
+    { name: "issuedAt", type: "uint256" },
+  ],
+} as const;
+
+interface ClaimNonceRecord {
+  address: string;
+  recipient: string;
+  issuedAt: number;
+}
+
+export type ClaimSignatureResult =
+  | { valid: true; recipient: string }
+  | { valid: false; error: string; status: number };
+
+// A nonce is 32 random bytes as 0x-prefixed hex, as issueClaimNonce makes them
+const NONCE_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+const nonceKey = (nonce: string) => ["claim_nonces", nonce.toLowerCase()];
+
+export function getClaimDomain() {
+  return {
+    name: "ethosUSD",
+    version: "1",
+    chainId: tempoTestnet.id,
+    verifyingContract: CONTRACTS.ETHOS_USD_TOKEN,
+  } as const;
+}
+
+// Typed data in the shape expected by eth_signTypedData_v4
+export function getClaimTypedData(address: string, recipient: string, nonce: string, issuedAt: number) {
+  return {
+    types: {
+      EIP712Domain: [
+        { name: "name", type: "string" },
+        { name: "version", type: "string" },
+        { name: "chainId", type: "uint256" },
+        { name: "verifyingContract", type: "address" },
+      ],
+      ...CLAIM_TYPES,
+    },
+    domain: getClaimDomain(),
+    primaryType: "Claim" as const,
+    message: {
+      account: address.toLowerCase(),
+      recipient: recipient.toLowerCase(),
+      nonce,
+      issuedAt,
+    },
+  };
+}
+
+// Issue a fresh single-use nonce for an address claiming to a recipient
+export async function issueClaimNonce(address: string, recipient: string): Promise<{ nonce: `0x${string}`; issuedAt: number; expiresAt: number }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const nonce = `0x${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}` as const;
+  const issuedAt = Date.now();
+
+  const kv = await getKv();
+  await kv.set(
+    nonceKey(nonce),
+    { address: address.toLowerCase(), recipient: recipient.toLowerCase(), issuedAt } satisfies ClaimNonceRecord,
+    { expireIn: CLAIM_NONCE_TTL_MS }
+  );
+
+  return { nonce, issuedAt, expiresAt: issuedAt + CLAIM_NONCE_TTL_MS };
+}
+
+// Verify a claim signature and consume its nonce
+export async function verifyClaimSignature(
+  address: string,
+  nonce: string,
+  signature: `0x${string}`
+): Promise<ClaimSignatureResult> {
+  // The nonce comes straight from the request body
+  if (typeof nonce !== "string" || !NONCE_PATTERN.test(nonce)) {
+    return { valid: false, error: "Invalid nonce format", status: 400 };
+  }
+
+  const kv = await getKv();
+  const entry = await kv.get<ClaimNonceRecord>(nonceKey(nonce));
+
+  // Unknown, expired or already used
+  if (!entry.value || Date.now() - entry.value.issuedAt > CLAIM_NONCE_TTL_MS) {
+    return { valid: false, error: "Signature expired or already used. Please try again.", status: 400 };
+  }
+
+  if (entry.value.address !== address.toLowerCase()) {
+    return { valid: false, error: "Nonce was issued for a different address", status: 403 };
+  }
+
+  let isValidSignature = false;
+  try {
+    isValidSignature = await verifyTypedData({
+      address: address as `0x${string}`,
+      domain: getClaimDomain(),
+      types: CLAIM_TYPES,
+      primaryType: "Claim",
+      message: {
+        account: address.toLowerCase() as `0x${string}`,
+        recipient: entry.value.recipient as `0x${string}`,
+        nonce: nonce as `0x${string}`,
+        issuedAt: BigInt(entry.value.issuedAt),
+      },
+      signature,
+    });
+  } catch (err) {
+    console.error("Signature verification error:", err);
+    return { valid: false, error: "Invalid signature format", status: 400 };
+  }
+
+  if (!isValidSignature) {
+    return { valid: false, error: "Invalid signature. Please sign with the correct wallet.", status: 403 };
+  }
+
+  // Consume the nonce - only one request can win this
+  const result = await kv.atomic()
+    .check(entry)
+    .delete(nonceKey(nonce))
+    .commit();
+
+  if (!result.ok) {
+    return { valid: false, error: "Signature expired or already used. Please try again.", status: 400 };
+  }
+
+  return { valid: true, recipient: entry.value.recipient };
+}
@@ -0,0 +1,509 @@
+// Claim ledger - transactional storage for ethosUSD claims
+//
+// Every claim moves through a small state machine:
+//   review -> reserved -> minted -> confirmed
+//      \          \          \
+//       +---------+-> failed <+
+//
+// Claims that would break an issuance limit (see issuance.ts) start in review
+// and only move on to reserved when an admin approves them.
+//
+// Each Ethos profile has an account that tracks the cumulative Contributor XP
+// paid out to it, so users can come back and claim the XP they earned since
+// their last claim - but only once per profile, no matter how many wallets are
+// linked to it. Users without a profile get an account per address. An account
+// can have at most one claim in flight. The reservation
+// is taken atomically before anything is minted, so two concurrent requests
+// (even on different server instances sharing the same KV database) can never
+// both mint.
+
+import { getKv } from "./kv.ts";
+import {
+  checkIssuance,
+  describeIssuanceLimit,
+  getIssuanceLimits,
+  issuanceKeys,
+  type IssuanceLimits,
+  type IssuanceUsage,
+} from "./issuance.ts";
+
+export type ClaimStatus = "review" | "reserved" | "minted" | "confirmed" | "failed";
+
+export interface ClaimRecord {
+  id: string;
+  accountId: string; // The account this claim is paid from (see claimAccountId)
+  profileId?: number; // Ethos profile resolved at claim time
+  address: string; // Recipient of the mint - any address linked to the profile
+  requestedBy: string; // Address that signed the claim
+  amount: bigint; // Amount claimed in token units (6 decimals)
+  xp: number; // XP paid out by this claim (the delta since the previous claim)
+  xpTotal: number; // Total Contributor XP at time of claim
+  policyVersion?: string; // Reward policy that priced the claim (see reward-policy.ts)
+  status: ClaimStatus;
+  txHash?: string; // Known before broadcast - the mint is signed locally first
+  rawTransaction?: string; // Signed mint, kept so it can be rebroadcast
+  nonce?: number; // Admin nonce used by the mint
+  error?: string;
+  reviewReason?: string; // Why the claim was held for manual review
+  countedAt?: number; // When the claim was counted against the issuance limits
+  flagged?: boolean; // Marked for attention by an admin
+  notes?: ClaimNote[]; // Admin annotations, oldest first
+  timestamp: number; // When the claim was reserved
+  updatedAt: number;
+}
+
+export interface ClaimNote {
+  text: string;
+  at: number;
+}
+
+export interface ClaimAnnotation {
+  flagged?: boolean;
+  note?: string;
+}
+
+export interface ClaimAccount {
+  id: string;
+  profileId?: number;
+  paidXp: number; // Cumulative XP paid out by confirmed claims
+  paidAmount: bigint; // Cumulative token units minted by confirmed claims
+  activeClaimId: string | null; // Claim currently in flight, if any
+  updatedAt: number;
+}
+
+export interface ClaimReservation {
+  accountId: string;
+  profileId?: number;
+  address: string; // Recipient
+  requestedBy: string;
+  amount: bigint;
+  xp: number; // XP delta being paid
+  xpTotal: number; // Must equal the account's paidXp + xp
+  policyVersion?: string;
+  // Per-address accounts created before claims were keyed by profile, or by
+  // imports since. They are folded into the profile account when it is reserved.
+  legacyAccountIds?: string[];
+  // The reward policy's global budget in token units. Checked against the
+  // issuance counters in the reservation itself, so concurrent claims priced
+  // against the same remaining budget can't overshoot it.
+  budgetCap?: bigint;
+}
+
+// A claim paid before the ledger existed (the old data/claims.json records)
+export interface ImportedClaim {
+  address: string;
+  amount: bigint;
+  xp: number; // Total Contributor XP at time of claim, all of it paid
+  txHash: string;
+  timestamp: number;
+}
+
+export interface ClaimStore {
+  // Reserve a claim for an address. Returns null if the account already has a
+  // claim in flight, or if its paid XP changed since the delta was computed.
+  // Claims that would break an issuance limit are returned in review instead.
+  reserve(reservation: ClaimReservation): Promise<ClaimRecord | null>;
+  // review -> reserved (counts the claim against the limits regardless)
+  approve(id: string): Promise<ClaimRecord>;
+  // reserved -> minted (recorded before the mint is broadcast)
+  markMinted(
+    id: string,
+    txHash: string,
+    details?: { rawTransaction?: string; nonce?: number }
+  ): Promise<ClaimRecord>;
+  // minted -> confirmed (credits the XP to the account)
+  markConfirmed(id: string): Promise<ClaimRecord>;
+  // review | reserved | minted -> failed (frees the account so it can claim again)
+  markFailed(id: string, error: string): Promise<ClaimRecord>;
+  // Record a claim paid before the ledger existed as confirmed and credit its
+  // XP to the address's account. Returns false if it was already imported.
+  importConfirmed(claim: ImportedClaim): Promise<boolean>;
+  // Flag/unflag a claim or add a note, whatever its status
+  annotate(id: string, annotation: ClaimAnnotation): Promise<ClaimRecord>;
+  get(id: string): Promise<ClaimRecord | null>;
+  // The account, or a preview of it merged with its legacy per-address accounts
+  getAccount(accountId: string, legacyAccountIds?: string[]): Promise<ClaimAccount | null>;
+  // Claim history for an account (including legacy accounts), newest first
+  listByAccount(accountId: string, legacyAccountIds?: string[]): Promise<ClaimRecord[]>;
+  list(): Promise<ClaimRecord[]>;
+  // Token units counted against the issuance limits right now
+  getIssuanceUsage(): Promise<IssuanceUsage>;
+}
+
+export class ClaimTransitionError extends Error {
+  constructor(id: string, from: ClaimStatus, to: ClaimStatus) {
+    super(`Claim ${id} cannot move from ${from} to ${to}`);
+    this.name = "ClaimTransitionError";
+  }
+}
+
+// Which states each status may be entered from
+const ALLOWED_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  review: [],
+  reserved: ["review"],
+  minted: ["reserved"],
+  confirmed: ["minted"],
+  failed: ["review", "reserved", "minted"],
+};
+
+// The reward policy's budget caps total issuance like the supply ceiling does
+function withBudgetCap(limits: IssuanceLimits, budgetCap: bigint | undefined): IssuanceLimits {
+  if (budgetCap === undefined || (limits.supplyCeiling !== undefined && limits.supplyCeiling <= budgetCap)) {
+    return limits;
+  }
+  return { ...limits, supplyCeiling: budgetCap };
+}
+
+// Account id for a claimant: their Ethos profile, or the address itself
+export function claimAccountId(profileId: number | null | undefined, address: string): string {
+  return profileId ? `profile:${profileId}` : address.toLowerCase();
+}
+
+// Deno KV backed claim store
+//
+// Keys:
+//   ["claims", id]                   -> ClaimRecord
+//   ["claim_accounts", accountId]    -> ClaimAccount (the per-account lock)
+//   ["claim_history", accountId, id] -> claim id
+//   ["issuance", ...]                -> token units counted against the limits
+export function createKvClaimStore(kv: Deno.Kv, limits: IssuanceLimits = {}): ClaimStore {
+  const claimKey = (id: string) => ["claims", id];
+  const accountKey = (accountId: string) => ["claim_accounts", accountId];
+  const historyKey = (accountId: string, id: string) => ["claim_history", accountId, id];
+
+  // Read an account merged with its legacy accounts. Legacy accounts can
+  // appear after the profile account exists (imported claims, a newly linked
+  // wallet), so they are always read and folded in.
+  async function readAccount(accountId: string, legacyAccountIds: string[] = []) {
+    const entry = await kv.get<ClaimAccount>(accountKey(accountId));
+    const legacyEntries = (await Promise.all(
+      legacyAccountIds.filter((id) => id !== accountId).map((id) => kv.get<ClaimAccount>(accountKey(id)))
+    )).filter((legacy) => legacy.value !== null);
+
+    let account = entry.value;
+    if (legacyEntries.length > 0) {
+      const legacyAccounts = legacyEntries.map((legacy) => legacy.value!);
+      account = {
+        ...account,
+        id: accountId,
+        paidXp: (account?.paidXp ?? 0) + legacyAccounts.reduce((sum, legacy) => sum + legacy.paidXp, 0),
+        paidAmount: (account?.paidAmount ?? 0n) + legacyAccounts.reduce((sum, legacy) => sum + legacy.paidAmount, 0n),
+        activeClaimId: account?.activeClaimId ?? legacyAccounts.map((legacy) => legacy.activeClaimId).find(Boolean) ?? null,
+        updatedAt: account?.updatedAt ?? Date.now(),
+      };
+    }
+
+    return { entry, legacyEntries, account };
+  }
+
+  // Issuance counters for a point in time. The total is seeded from the
+  // claims themselves the first time it is read.
+  async function readUsage(time: number) {
+    const keys = issuanceKeys(time);
+    const [total, day, hour] = await Promise.all([
+      kv.get<bigint>(keys.total),
+      kv.get<bigint>(keys.day),
+      kv.get<bigint>(keys.hour),
+    ]);
+
+    let seededTotal = total.value;
+    if (seededTotal === null) {
+      seededTotal = 0n;
+      for await (const entry of kv.list<ClaimRecord>({ prefix: ["claims"] })) {
+        if (["reserved", "minted", "confirmed"].includes(entry.value.status)) {
+          seededTotal += entry.value.amount;
+        }
+      }
+    }
+
+    return {
+      entries: [total, day, hour],
+      usage: { total: seededTotal, day: day.value ?? 0n, hour: hour.value ?? 0n },
+    };
+  }
+
+  // Add to (or, with a negative amount, release from) the issuance counters
+  function addUsage(op: Deno.AtomicOperation, usage: Awaited<ReturnType<typeof readUsage>>, amount: bigint) {
+    const [total, day, hour] = usage.entries;
+    op.check(total, day, hour)
+      .set(total.key, usage.usage.total + amount)
+      .set(day.key, usage.usage.day + amount)
+      .set(hour.key, usage.usage.hour + amount);
+  }
+
+  async function transition(
+    id: string,
+    to: ClaimStatus,
+    patch: Partial<ClaimRecord>
+  ): Promise<ClaimRecord> {
+    // Retry on versionstamp conflicts - another instance may have touched the records
+    while (true) {
+      const entry = await kv.get<ClaimRecord>(claimKey(id));
+      if (!entry.value) {
+        throw new Error(`Claim ${id} not found`);
+      }
+
+      const current = entry.value;
+      if (!ALLOWED_TRANSITIONS[to].includes(current.status)) {
+        throw new ClaimTransitionError(id, current.status, to);
+      }
+
+      const now = Date.now();
+      const updated: ClaimRecord = {
+        ...current,
+        ...patch,
+        ...(to === "reserved" ? { countedAt: now } : {}),
+        status: to,
+        updatedAt: now,
+      };
+
+      const op = kv.atomic()
+        .check(entry)
+        .set(claimKey(id), updated);
+
+      // Approving a held claim counts it; failing a counted claim releases it
+      if (to === "reserved") {
+        addUsage(op, await readUsage(now), current.amount);
+      } else if (to === "failed" && current.countedAt !== undefined) {
+        addUsage(op, await readUsage(current.countedAt), -current.amount);
+      }
+
+      // Settling a claim releases the account; confirming it also credits the XP
+      if (to === "confirmed" || to === "failed") {
+        // Claims reserved before accounts were keyed by profile have no accountId
+        const accountId = current.accountId ?? current.address;
+        const accountEntry = await kv.get<ClaimAccount>(accountKey(accountId));
+        const account = accountEntry.value;
+        if (account && account.activeClaimId === id) {
+          op.check(accountEntry).set(accountKey(accountId), {
+            ...account,
+            paidXp: to === "confirmed" ? account.paidXp + current.xp : account.paidXp,
+            paidAmount: to === "confirmed" ? account.paidAmount + current.amount : account.paidAmount,
+            activeClaimId: null,
+            updatedAt: now,
+          });
+        }
+      }
+
+      const result = await op.commit();
+      if (result.ok) {
+        return updated;
+      }
+    }
+  }
+
+  return {
+    async reserve({ legacyAccountIds = [], budgetCap, ...reservation }) {
+      const { accountId, xp, xpTotal } = reservation;
+
+      // Retry on versionstamp conflicts - usually another claim bumping the
+      // issuance counters. A competing claim for the same account is caught
+      // by the activeClaimId check on the next pass.
+      while (true) {
+        const now = Date.now();
+        const { entry, legacyEntries, account: existing } = await readAccount(accountId, legacyAccountIds);
+        const account: ClaimAccount = existing ?? {
+          id: accountId,
+          paidXp: 0,
+          paidAmount: 0n,
+          activeClaimId: null,
+          updatedAt: now,
+        };
+
+        // Another claim is in flight, or the delta was computed against stale data
+        if (account.activeClaimId || account.paidXp + xp !== xpTotal) {
+          return null;
+        }
+
+        const usage = await readUsage(now);
+        const exceeded = checkIssuance(withBudgetCap(limits, budgetCap), usage.usage, reservation.amount);
+
+        const record: ClaimRecord = {
+          ...reservation,
+          id: crypto.randomUUID(),
+          address: reservation.address.toLowerCase(),
+          requestedBy: reservation.requestedBy.toLowerCase(),
+          status: exceeded ? "review" : "reserved",
+          reviewReason: exceeded ? describeIssuanceLimit(exceeded) : undefined,
+          countedAt: exceeded ? undefined : now,
+          timestamp: now,
+          updatedAt: now,
+        };
+
+        // Only succeeds if nobody touched the account (or its legacy accounts) since we read it
+        const op = kv.atomic()
+          .check(entry)
+          .set(accountKey(accountId), {
+            ...account,
+            profileId: reservation.profileId,
+            activeClaimId: record.id,
+            updatedAt: now,
+          })
+          .set(claimKey(record.id), record)
+          .set(historyKey(accountId, record.id), record.id);
+
+        if (!exceeded) {
+          addUsage(op, usage, record.amount);
+        }
+
+        // Fold legacy accounts into this one, keeping their history reachable
+        for (const legacy of legacyEntries) {
+          op.check(legacy).delete(legacy.key);
+          for await (const past of kv.list<string>({ prefix: ["claim_history", legacy.key[1]] })) {
+            op.set(historyKey(accountId, past.value), past.value);
+          }
+        }
+
+        const result = await op.commit();
+        if (result.ok) {
+          return record;
+        }
+      }
+    },
+
+    approve(id) {
+      return transition(id, "reserved", { reviewReason: undefined });
+    },
+
+    markMinted(id, txHash, details) {
+      return transition(id, "minted", { txHash, ...details });
+    },
+
+    markConfirmed(id) {
+      return transition(id, "confirmed", {});
+    },
+
+    markFailed(id, error) {
+      return transition(id, "failed", { error });
+    },
+
+    async importConfirmed(claim) {
+      // Keyed by the mint so running the import again is a no-op
+      const id = `import:${claim.txHash.toLowerCase()}`;
+      // Imported claims predate profile accounts, so they land in the legacy
+      // per-address account and are folded into the profile on its next claim
+      const accountId = claimAccountId(null, claim.address);
+
+      while (true) {
+        const existing = await kv.get<ClaimRecord>(claimKey(id));
+        if (existing.value) {
+          return false;
+        }
+
+        const accountEntry = await kv.get<ClaimAccount>(accountKey(accountId));
+        const account = accountEntry.value;
+        const total = await kv.get<bigint>(issuanceKeys(claim.timestamp).total);
+
+        const record: ClaimRecord = {
+          id,
+          accountId,
+          address: accountId,
+          requestedBy: accountId,
+          amount: claim.amount,
+          xp: claim.xp,
+          xpTotal: claim.xp,
+          status: "confirmed",
+          txHash: claim.txHash,
+          countedAt: claim.timestamp,
+          timestamp: claim.timestamp,
+          updatedAt: Date.now(),
+        };
+
+        const op = kv.atomic()
+          .check(existing, accountEntry, total)
+          .set(claimKey(id), record)
+          .set(historyKey(accountId, id), id)
+          .set(accountKey(accountId), {
+            id: accountId,
+            profileId: account?.profileId,
+            paidXp: (account?.paidXp ?? 0) + claim.xp,
+            paidAmount: (account?.paidAmount ?? 0n) + claim.amount,
+            activeClaimId: account?.activeClaimId ?? null,
+            updatedAt: Date.now(),
+          });
+
+        // An unseeded total is seeded from the claims, this one included
+        if (total.value !== null) {
+          op.set(total.key, total.value + claim.amount);
+        }
+
+        const result = await op.commit();
+        if (result.ok) {
+          return true;
+        }
+      }
+    },
+
+    async annotate(id, { flagged, note }) {
+      while (true) {
+        const entry = await kv.get<ClaimRecord>(claimKey(id));
+        if (!entry.value) {
+          throw new Error(`Claim ${id} not found`);
+        }
+
+        const now = Date.now();
+        const updated: ClaimRecord = {
+          ...entry.value,
+          flagged: flagged ?? entry.value.flagged,
+          notes: note ? [...(entry.value.notes ?? []), { text: note, at: now }] : entry.value.notes,
+        };
+
+        const result = await kv.atomic().check(entry).set(claimKey(id), updated).commit();
+        if (result.ok) {
+          return updated;
+        }
+      }
+    },
+
+    async get(id) {
+      const entry = await kv.get<ClaimRecord>(claimKey(id));
+      return entry.value;
+    },
+
+    async getAccount(accountId, legacyAccountIds) {
+      const { account } = await readAccount(accountId, legacyAccountIds);
+      return account;
+    },
+
+    async listByAccount(accountId, legacyAccountIds = []) {
+      const ids = new Set<string>();
+      for (const id of [accountId, ...legacyAccountIds]) {
+        for await (const entry of kv.list<string>({ prefix: ["claim_history", id] })) {
+          ids.add(entry.value);
+        }
+      }
+
+      const records: ClaimRecord[] = [];
+      for (const id of ids) {
+        const claim = await kv.get<ClaimRecord>(claimKey(id));
+        if (claim.value) {
+          records.push(claim.value);
+        }
+      }
+      return records.sort((a, b) => b.timestamp - a.timestamp);
+    },
+
+    async list() {
+      const records: ClaimRecord[] = [];
+      for await (const entry of kv.list<ClaimRecord>({ prefix: ["claims"] })) {
+        records.push(entry.value);
+      }
+      return records;
+    },
+
+    async getIssuanceUsage() {
+      const { usage } = await readUsage(Date.now());
+      return usage;
+    },
+  };
+}
+
+let claimStore: Promise<ClaimStore> | null = null;
+
+// Get the shared claim store
+export function getClaimStore(): Promise<ClaimStore> {
+  if (!claimStore) {
+    claimStore = getKv().then((kv) => createKvClaimStore(kv, getIssuanceLimits()));
+  }
+  return claimStore;
+}
@@ -1,184 +1,171 @@
 // Claims tracking system - tracks who has claimed their ethosUSD
 
 import { getUserData, getScoreByAddress } from "./ethos.ts";
-import { createTempoPublicClient } from "./tempo.ts";
-import { CONTRACTS } from "./contracts.ts";
-
-const CLAIMS_FILE = "./data/claims.json";
-
-// TIP20 ABI for balance check
-const TIP20_BALANCE_ABI = [
-  {
-    name: "balanceOf",
-    type: "function",
-    stateMutability: "view",
-    inputs: [{ name: "account", type: "address" }],
-    outputs: [{ type: "uint256" }],
-  },
-] as const;
-
-// Check on-chain if user has ethosUSD balance (indicates they've claimed or received tokens)
-// This is more reliable than checking logs since Tempo RPC limits block range queries
-async function hasClaimedOnChain(address: string): Promise<boolean> {
-  try {
-    const client = createTempoPublicClient();
-    
-    // Check user's ethosUSD balance
-    const balance = await client.readContract({
-      address: CONTRACTS.ETHOS_USD_TOKEN,
-      abi: TIP20_BALANCE_ABI,
-      functionName: "balanceOf",
-      args: [address.toLowerCase() as `0x${string}`],
-    });
-    
-    // If they have any ethosUSD balance, they've likely claimed
-    // (Since the primary way to get ethosUSD is through claiming)
-    return balance > 0n;
-  } catch (err) {
-    console.error("Error checking on-chain balance:", err);
-    return false; // Fall back to local check if on-chain check fails
-  }
-}
+import { claimAccountId, getClaimStore, type ClaimRecord } from "./claim-store.ts";
+import { computeReward, getGlobalBudget, getRewardPolicy } from "./reward-policy.ts";
+import { formatTokenAmount } from "./tempo.ts";
+import { toCsv } from "./csv.ts";
+import { getIssuanceLimits, type IssuanceLimits, type IssuanceUsage } from "./issuance.ts";
+import { getMintIndexState, getMints, isMintIndexComplete, type MintEvent } from "./mint-history.ts";
 
-export interface ClaimRecord {
-  address: string;
-  amount: bigint; // Amount claimed in token units (6 decimals)
-  xp: number; // XP at time of claim
-  txHash: string;
-  timestamp: number;
-}
+export type { ClaimRecord, ClaimStatus } from "./claim-store.ts";
 
-// Serializable version for JSON storage
-interface ClaimRecordJSON {
-  address: string;
-  amount: string; // Stored as string since BigInt can't be JSON serialized
-  xp: number;
-  txHash: string;
-  timestamp: number;
+export interface MintHistoryEntry extends MintEvent {
+  claimId?: string; // Ledger claim that produced this mint, if any
 }
 
-// Load claims from file (always reads fresh for reliability)
-async function loadClaims(): Promise<Map<string, ClaimRecord>> {
-  try {
-    const content = await Deno.readTextFile(CLAIMS_FILE);
-    const records: ClaimRecordJSON[] = JSON.parse(content);
-    return new Map(
-      records.map((r) => [
-        r.address.toLowerCase(),
-        {
-          ...r,
-          address: r.address.toLowerCase(),
-          amount: BigInt(r.amount),
-        },
-      ])
-    );
-  } catch {
-    // File doesn't exist or is invalid, start with empty map
-    return new Map();
-  }
+export interface MintHistory {
+  mints: MintHistoryEntry[];
+  totalMinted: bigint; // Sum of all indexed mints to the addresses
+  unrecorded: number; // Mints with no matching ledger claim (e.g. claims made before the ledger)
+  indexComplete: boolean; // False while the mint index is still catching up
 }
 
-// Save claims to file
-async function saveClaims(claims: Map<string, ClaimRecord>): Promise<void> {
-  const records: ClaimRecordJSON[] = Array.from(claims.values()).map((r) => ({
-    ...r,
-    amount: r.amount.toString(),
-  }));
+// Mints to a set of addresses, cross-checked against the claim ledger
+async function getMintHistory(addresses: string[], history: ClaimRecord[]): Promise<MintHistory> {
+  // The cron keeps the index current; claim checks only read it
+  const indexComplete = isMintIndexComplete(await getMintIndexState());
 
-  // Ensure data directory exists
-  try {
-    await Deno.mkdir("./data", { recursive: true });
-  } catch {
-    // Directory might already exist
-  }
+  const claimsByTxHash = new Map(
+    history.filter((claim) => claim.txHash).map((claim) => [claim.txHash!.toLowerCase(), claim.id])
+  );
+  const mints = (await getMints(addresses)).map((mint) => ({
+    ...mint,
+    claimId: claimsByTxHash.get(mint.txHash.toLowerCase()),
+  }));
 
-  await Deno.writeTextFile(CLAIMS_FILE, JSON.stringify(records, null, 2));
+  return {
+    mints,
+    totalMinted: mints.reduce((sum, mint) => sum + mint.amount, 0n),
+    unrecorded: mints.filter((mint) => !mint.claimId).length,
+    indexComplete,
+  };
 }
 
-// Check if an address has already claimed
-export async function hasClaimed(address: string): Promise<boolean> {
-  const claims = await loadClaims();
-  return claims.has(address.toLowerCase());
+export interface ClaimableAmount {
+  canClaim: boolean;
+  amount: bigint; // Claimable now, in token units
+  xp: number; // Claimable XP (total minus already paid)
+  xpTotal: number; // Current Contributor XP
+  paidXp: number; // XP already paid out by confirmed claims
+  paidAmount: bigint; // Token units already paid out by confirmed claims
+  policyVersion: string; // Reward policy that priced the amount
+  budgetCap?: bigint; // The policy's global budget in token units, enforced again at reservation
+  score?: number;
+  profileId?: number; // Ethos profile the claim is deduplicated by
+  accountId: string; // Claim ledger account (see claimAccountId)
+  addresses: string[]; // Addresses that may receive the mint
+  legacyAccountIds: string[]; // Per-address accounts to fold into the profile account
+  alreadyClaimed: boolean; // Has claimed at least once before
+  claimRecord?: ClaimRecord; // Most recent claim
+  history: ClaimRecord[];
+  mintHistory: MintHistory; // On-chain mints to the addresses - independent of their balance
+  error?: string;
 }
 
-// Get claim record for an address
-export async function getClaimRecord(address: string): Promise<ClaimRecord | null> {
-  const claims = await loadClaims();
-  return claims.get(address.toLowerCase()) || null;
-}
+// Get claimable amount for an address
+// Claims are deduplicated by Ethos profile: every address linked to a profile
+// shares one XP allowance, and any of them can receive the mint.
+// The XP earned since the last claim is priced by the active reward policy
+// (see reward-policy.ts) and returned in token units (with 6 decimals)
+export async function getClaimableAmount(address: string): Promise<ClaimableAmount> {
+  // Resolve the profile and linked addresses (also carries the XP)
+  const userData = await getUserData(address);
+  const profileId = userData?.profileId ?? undefined;
+  const addresses = userData?.addresses ?? [address.toLowerCase()];
+  const accountId = claimAccountId(profileId, address);
+  const legacyAccountIds = profileId ? addresses : [];
 
-// Record a new claim
-export async function recordClaim(
-  address: string,
-  amount: bigint,
-  xp: number,
-  txHash: string
-): Promise<void> {
-  const claims = await loadClaims();
-  
-  const record: ClaimRecord = {
-    address: address.toLowerCase(),
-    amount,
-    xp,
-    txHash,
-    timestamp: Date.now(),
-  };
+  const store = await getClaimStore();
+  const account = await store.getAccount(accountId, legacyAccountIds);
+  const history = await store.listByAccount(accountId, legacyAccountIds);
+  const claimRecord = history[0];
+  const paidXp = account?.paidXp ?? 0;
+  const paidAmount = account?.paidAmount ?? 0n;
+  const policy = await getRewardPolicy();
+  const mintHistory = await getMintHistory(addresses, history);
 
-  claims.set(address.toLowerCase(), record);
-  
-  await saveClaims(claims);
-}
+  const notClaimable = {
+    canClaim: false,
+    amount: 0n,
+    xp: 0,
+    xpTotal: paidXp,
+    paidXp,
+    paidAmount,
+    policyVersion: policy.version,
+    profileId,
+    accountId,
+    addresses,
+    legacyAccountIds,
+    alreadyClaimed: paidXp > 0,
+    claimRecord,
+    history,
+    mintHistory,
+  };
 
-// Get claimable amount for an address
-// Returns the amount in token units (with 6 decimals)
-// 1 XP = 1 ethosUSD = 1_000_000 token units
-export async function getClaimableAmount(address: string): Promise<{
-  canClaim: boolean;
-  amount: bigint;
-  xp: number;
-  score?: number;
-  alreadyClaimed: boolean;
-  claimRecord?: ClaimRecord;
-  error?: string;
-}> {
-  // First check on-chain if they've received a mint (most reliable)
-  const claimedOnChain = await hasClaimedOnChain(address);
-  if (claimedOnChain) {
-    // Try to get local record for details, but we know they claimed
-    const existingClaim = await getClaimRecord(address);
-    return {
-      canClaim: false,
-      amount: 0n,
-      xp: existingClaim?.xp ?? 0,
-      alreadyClaimed: true,
-      claimRecord: existingClaim ?? undefined,
-    };
+  // Claims made before the ledger existed only show up as mints on chain.
+  // We can't tell how much XP they covered, so they can't be topped up.
+  if (!account) {
+    if (mintHistory.unrecorded > 0) {
+      return { ...notClaimable, alreadyClaimed: true };
+    }
+    if (!mintHistory.indexComplete) {
+      return {
+        ...notClaimable,
+        error: "Claim history is still being indexed. Please try again in a few minutes.",
+      };
+    }
   }
 
-  // Also check local file (belt and suspenders)
-  const existingClaim = await getClaimRecord(address);
-  if (existingClaim) {
+  if (account?.activeClaimId) {
+    const active = history.find((claim) => claim.id === account.activeClaimId);
     return {
-      canClaim: false,
-      amount: 0n,
-      xp: existingClaim.xp,
-      alreadyClaimed: true,
-      claimRecord: existingClaim,
+      ...notClaimable,
+      error: active?.status === "review"
+        ? "Your claim is being held for manual review. You'll be able to see it here once it's processed."
+        : "A claim for this Ethos profile is already being processed.",
     };
   }
 
-  // First, try to get user data with XP
-  const userData = await getUserData(address);
-  
   // If user data is available and has XP
   if (userData && userData.xp > 0) {
-    const amount = BigInt(Math.floor(userData.xp)) * 1_000_000n;
+    const xpTotal = Math.floor(userData.xp);
+    const xp = xpTotal - paidXp;
+
+    if (xp <= 0) {
+      return {
+        ...notClaimable,
+        xpTotal,
+        score: userData.score,
+        error: "You've claimed all of your Contributor XP so far. Earn more XP on Ethos to claim again!",
+      };
+    }
+
+    const reward = computeReward(policy, {
+      xp,
+      score: userData.score,
+      paidAmount,
+      // Reserved and minted claims count too, or concurrent claims could overshoot the budget
+      totalIssued: policy.globalBudget !== null ? (await store.getIssuanceUsage()).total : 0n,
+    });
+
+    if (reward.error || reward.amount <= 0n) {
+      return {
+        ...notClaimable,
+        xpTotal,
+        score: userData.score,
+        error: reward.error ?? "Your Contributor XP doesn't earn any ethosUSD under the current reward policy.",
+      };
+    }
+
     return {
+      ...notClaimable,
       canClaim: true,
-      amount,
-      xp: userData.xp,
+      amount: reward.amount,
+      budgetCap: getGlobalBudget(policy) ?? undefined,
+      xp,
+      xpTotal,
       score: userData.score,
-      alreadyClaimed: false,
     };
   }
 
@@ -187,10 +174,7 @@ export async function getClaimableAmount(address: string): Promise<{
   
   if (!scoreData) {
     return {
-      canClaim: false,
-      amount: 0n,
-      xp: 0,
-      alreadyClaimed: false,
+      ...notClaimable,
       error: "No Ethos profile found. Create one at ethos.network to earn Contributor XP.",
     };
   }
@@ -200,30 +184,184 @@ export async function getClaimableAmount(address: string): Promise<{
   const xp = userData?.xp ?? 0;
   
   return {
-    canClaim: false,
-    amount: 0n,
-    xp,
+    ...notClaimable,
     score: scoreData.score,
-    alreadyClaimed: false,
     error: xp === 0 
       ? "You have an Ethos profile but no Contributor XP yet. Earn XP by contributing to Ethos!"
       : "Unable to fetch your Contributor XP. Please try again later.",
   };
 }
 
+// What the claimant sees at each stage of the pipeline
+const CLAIM_STAGE_MESSAGES: Record<ClaimRecord["status"], string> = {
+  review: "Your claim has been queued for manual review. It will be minted once approved.",
+  reserved: "Your claim is queued for minting.",
+  minted: "Your mint transaction has been sent and is waiting for confirmation.",
+  confirmed: "Your claim has been minted.",
+  failed: "Your claim could not be minted. You can try claiming again.",
+};
+
+// Public progress view of a claim, served by /api/claim and /api/claim/:id
+export function getClaimProgress(claim: ClaimRecord) {
+  return {
+    claimId: claim.id,
+    status: claim.status,
+    done: claim.status === "confirmed" || claim.status === "failed",
+    message: CLAIM_STAGE_MESSAGES[claim.status],
+    recipient: claim.address,
+    amount: claim.amount.toString(),
+    amountFormatted: formatTokenAmount(claim.amount),
+    xp: claim.xp,
+    xpTotal: claim.xpTotal,
+    policyVersion: claim.policyVersion,
+    txHash: claim.txHash,
+    explorerUrl: claim.txHash ? `https://explore.tempo.xyz/receipt/${claim.txHash}` : undefined,
+    timestamp: claim.timestamp,
+    updatedAt: claim.updatedAt,
+  };
+}
+
 // Get all claims (for admin/stats)
 export async function getAllClaims(): Promise<ClaimRecord[]> {
-  const claims = await loadClaims();
-  return Array.from(claims.values());
+  const store = await getClaimStore();
+  return await store.list();
 }
 
-// Get total claimed amount
+// Get total claimed amount (confirmed mints only)
 export async function getTotalClaimed(): Promise<bigint> {
-  const claims = await loadClaims();
+  const claims = await getAllClaims();
   let total = 0n;
-  for (const claim of claims.values()) {
-    total += claim.amount;
+  for (const claim of claims) {
+    if (claim.status === "confirmed") {
+      total += claim.amount;
+    }
   }
   return total;
 }
 
+export interface ClaimFilter {
+  status?: ClaimRecord["status"][];
+  from?: number; // Reserved at or after (ms)
+  to?: number; // Reserved before (ms)
+  minAmount?: bigint; // Token units
+  maxAmount?: bigint;
+  flagged?: boolean;
+  address?: string; // Recipient or signer
+}
+
+export interface ClaimSummary {
+  count: number;
+  totalClaimed: bigint; // Confirmed mints only
+  byStatus: Record<ClaimRecord["status"], { count: number; amount: bigint }>;
+  flagged: number;
+  xpDistribution: { label: string; min: number; max: number | null; count: number }[];
+}
+
+// Buckets for the XP-per-claim histogram
+const XP_BUCKETS: [number, number | null][] = [
+  [0, 100],
+  [100, 500],
+  [500, 1_000],
+  [1_000, 5_000],
+  [5_000, 10_000],
+  [10_000, null],
+];
+
+// Claims matching a filter, newest first
+export function filterClaims(claims: ClaimRecord[], filter: ClaimFilter): ClaimRecord[] {
+  const address = filter.address?.toLowerCase();
+  return claims
+    .filter((claim) =>
+      (!filter.status?.length || filter.status.includes(claim.status)) &&
+      (filter.from === undefined || claim.timestamp >= filter.from) &&
+      (filter.to === undefined || claim.timestamp < filter.to) &&
+      (filter.minAmount === undefined || claim.amount >= filter.minAmount) &&
+      (filter.maxAmount === undefined || claim.amount <= filter.maxAmount) &&
+      (filter.flagged === undefined || Boolean(claim.flagged) === filter.flagged) &&
+      (!address || claim.address === address || claim.requestedBy === address)
+    )
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// Totals and XP distribution for a set of claims
+export function summarizeClaims(claims: ClaimRecord[]): ClaimSummary {
+  const byStatus = Object.fromEntries(
+    (["review", "reserved", "minted", "confirmed", "failed"] as const).map((status) => [status, { count: 0, amount: 0n }])
+  ) as ClaimSummary["byStatus"];
+
+  for (const claim of claims) {
+    byStatus[claim.status].count++;
+    byStatus[claim.status].amount += claim.amount;
+  }
+
+  return {
+    count: claims.length,
+    totalClaimed: byStatus.confirmed.amount,
+    byStatus,
+    flagged: claims.filter((claim) => claim.flagged).length,
+    xpDistribution: XP_BUCKETS.map(([min, max]) => ({
+      label: max === null ? `${min.toLocaleString("en-US")}+` : `${min.toLocaleString("en-US")}-${(max - 1).toLocaleString("en-US")}`,
+      min,
+      max,
+      count: claims.filter((claim) => claim.xp >= min && (max === null || claim.xp < max)).length,
+    })),
+  };
+}
+
+// CSV export of claims for the admin dashboard
+export function claimsToCsv(claims: ClaimRecord[]): string {
+  return toCsv(
+    ["id", "status", "timestamp", "recipient", "requestedBy", "accountId", "amount", "xp", "xpTotal", "policyVersion", "txHash", "flagged", "notes", "error"],
+    claims.map((claim) => [
+      claim.id,
+      claim.status,
+      new Date(claim.timestamp).toISOString(),
+      claim.address,
+      claim.requestedBy,
+      claim.accountId,
+      Number(claim.amount) / 1_000_000,
+      claim.xp,
+      claim.xpTotal,
+      claim.policyVersion,
+      claim.txHash,
+      claim.flagged ? "yes" : "",
+      claim.notes?.map((note) => note.text).join(" | "),
+      claim.error,
+    ])
+  );
+}
+
+export interface IssuanceBudget {
+  limits: IssuanceLimits;
+  usage: IssuanceUsage; // Counted against the limits (includes in-flight claims)
+  totalClaimed: bigint; // Confirmed mints only
+  remaining: Partial<Record<keyof IssuanceLimits, bigint>>; // Headroom under each configured limit
+  heldForReview: number;
+  heldAmount: bigint;
+}
+
+// Live view of the issuance limits and how much of them is used
+export async function getIssuanceBudget(): Promise<IssuanceBudget> {
+  const store = await getClaimStore();
+  const limits = getIssuanceLimits();
+  const usage = await store.getIssuanceUsage();
+  const held = (await getAllClaims()).filter((claim) => claim.status === "review");
+
+  const remaining: IssuanceBudget["remaining"] = {};
+  const used = { supplyCeiling: usage.total, dailyBudget: usage.day, hourlyBudget: usage.hour };
+  for (const [limit, spent] of Object.entries(used) as [keyof typeof used, bigint][]) {
+    const cap = limits[limit];
+    if (cap !== undefined) {
+      remaining[limit] = cap > spent ? cap - spent : 0n;
+    }
+  }
+
+  return {
+    limits,
+    usage,
+    totalClaimed: await getTotalClaimed(),
+    remaining,
+    heldForReview: held.length,
+    heldAmount: held.reduce((sum, claim) => sum + claim.amount, 0n),
+  };
+}
@@ -277,6 +277,16 @@ export const TIP403_REGISTRY_ABI = [
       { name: "allowed", type: "bool", indexed: false },
     ],
   },
+  {
+    name: "BlacklistUpdated",
+    type: "event",
+    inputs: [
+      { name: "policyId", type: "uint64", indexed: true },
+      { name: "updater", type: "address", indexed: true },
+      { name: "account", type: "address", indexed: true },
+      { name: "restricted", type: "bool", indexed: false },
+    ],
+  },
 ] as const;
 
 // Policy types
@@ -0,0 +1,59 @@
+// CSV helpers shared by exports and imports
+
+// Quote a field if it contains a delimiter, quote or line break
+function escapeCsvField(value: unknown): string {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+// Build a CSV document from a header row and data rows
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvField).join(",")).join("\n") + "\n";
+}
+
+// Parse a CSV document into rows of trimmed fields. Handles quoted fields
+// (with "" escapes, commas and line breaks); blank lines and lines starting
+// with # are skipped.
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field.trim());
+    field = "";
+    if (!(row.length === 1 && row[0] === "") && !row[0].startsWith("#")) {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,249 @@
+// Ethos discovery - the candidate set the whitelist sync checks
+//
+// Instead of a hand-kept seed list, discovery walks every Ethos profile by id
+// (bulk profile lookups, DISCOVERY_PAGE_SIZE ids at a time) until
+// EMPTY_PAGES_TO_STOP pages in a row come back empty, keeps the profiles
+// scoring at least the discovery threshold, and expands each one into every
+// address linked to it (allAddresses). The candidates are sorted by address
+// and stored in KV as a new generation; the current-set pointer only moves
+// once the whole generation is written, so a sync never reads a partial set.
+// The same Ethos data always gives the same set and hash, and an unchanged
+// set isn't rewritten.
+//
+// The threshold follows the type of policy being synced. A whitelist only
+// needs the profiles it could add, from ETHOS_DISCOVERY_MIN_SCORE (default
+// MIN_ETHOS_SCORE). A blacklist needs the low scorers it restricts, so it
+// discovers every profile.
+
+import { getProfileAddresses, getProfilesByIds, MIN_ETHOS_SCORE } from "./ethos.ts";
+import { toCsv } from "./csv.ts";
+import type { PolicyType } from "./whitelist.ts";
+import { acquireLock, commitInBatches, getKv, releaseLock } from "./kv.ts";
+
+// Profile ids per bulk lookup
+const DISCOVERY_PAGE_SIZE = 100;
+
+// Profile ids have gaps, so only a run of empty pages marks the end
+const EMPTY_PAGES_TO_STOP = 5;
+
+// Linked-address lookups in flight at once
+const ADDRESS_CONCURRENCY = 10;
+
+const DISCOVERY_LOCK = "ethos-discovery";
+
+// Longer than a full walk of Ethos should take; the lease frees itself if the server dies mid-run
+const DISCOVERY_LOCK_TTL_MS = 60 * 60 * 1000;
+
+const CURRENT_SET_KEY = ["ethos_candidate_set"];
+const candidateKey = (generation: string, address: string) => ["ethos_candidates", generation, address];
+
+export interface EthosCandidate {
+  address: string;
+  profileId: number;
+  score: number;
+}
+
+export interface CandidateSet {
+  generation: string;
+  hash: string; // SHA-256 of the set as CSV
+  minScore: number;
+  lastProfileId: number; // Highest profile id discovery found
+  profiles: number;
+  addresses: number;
+  discoveredAt: number;
+  changedAt: number; // When the set last differed from the one before
+}
+
+export interface DiscoveryProgress {
+  phase: "profiles" | "addresses";
+  done: number;
+  total: number | null; // Unknown while profiles are being paged
+}
+
+export interface DiscoveryOptions {
+  minScore?: number; // Defaults to the threshold for policyType
+  policyType?: PolicyType; // Type of the policy the candidates are synced to (default whitelist)
+  onProgress?: (progress: DiscoveryProgress) => void;
+}
+
+export interface Discovery {
+  candidates: EthosCandidate[];
+  minScore: number;
+  lastProfileId: number;
+  profiles: number;
+}
+
+export class DiscoveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DiscoveryError";
+  }
+}
+
+// Lowest score a candidate for a policy of this type can have
+export function getDiscoveryMinScore(policyType: PolicyType = "whitelist"): number {
+  if (policyType === "blacklist") {
+    return 0;
+  }
+  const value = Deno.env.get("ETHOS_DISCOVERY_MIN_SCORE");
+  if (!value) {
+    return MIN_ETHOS_SCORE;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new DiscoveryError("ETHOS_DISCOVERY_MIN_SCORE must be a whole number");
+  }
+  return Number(value);
+}
+
+// Walk every Ethos profile and collect the addresses of those at or above
+// the threshold, sorted by address. An address linked to more than one
+// profile is credited to the lowest profile id. Any failed API call fails
+// the whole discovery, since a partial walk isn't a complete candidate set.
+export async function discoverCandidates(options: DiscoveryOptions = {}): Promise<Discovery> {
+  const minScore = options.minScore ?? getDiscoveryMinScore(options.policyType);
+
+  const profiles: { profileId: number; score: number }[] = [];
+  let lastProfileId = 0;
+  let emptyPages = 0;
+  for (let start = 1; emptyPages < EMPTY_PAGES_TO_STOP; start += DISCOVERY_PAGE_SIZE) {
+    const ids = Array.from({ length: DISCOVERY_PAGE_SIZE }, (_, i) => start + i);
+    const page = await getProfilesByIds(ids);
+    emptyPages = page.length === 0 ? emptyPages + 1 : 0;
+    for (const profile of page) {
+      lastProfileId = Math.max(lastProfileId, profile.profileId);
+      if (profile.score >= minScore) {
+        profiles.push(profile);
+      }
+    }
+    options.onProgress?.({ phase: "profiles", done: start + DISCOVERY_PAGE_SIZE - 1, total: null });
+  }
+  profiles.sort((a, b) => a.profileId - b.profileId);
+
+  const linked: string[][] = [];
+  for (let i = 0; i < profiles.length; i += ADDRESS_CONCURRENCY) {
+    const batch = profiles.slice(i, i + ADDRESS_CONCURRENCY);
+    linked.push(...await Promise.all(batch.map((profile) => getProfileAddresses(profile.profileId))));
+    options.onProgress?.({ phase: "addresses", done: i + batch.length, total: profiles.length });
+  }
+
+  const candidates = new Map<string, EthosCandidate>();
+  profiles.forEach((profile, i) => {
+    for (const address of linked[i]) {
+      if (/^0x[a-f0-9]{40}$/.test(address) && !candidates.has(address)) {
+        candidates.set(address, { address, profileId: profile.profileId, score: profile.score });
+      }
+    }
+  });
+
+  return {
+    candidates: [...candidates.values()].sort((a, b) => a.address.localeCompare(b.address)),
+    minScore,
+    lastProfileId,
+    profiles: profiles.length,
+  };
+}
+
+export function candidatesToCsv(candidates: EthosCandidate[]): string {
+  return toCsv(
+    ["address", "profileId", "score"],
+    candidates.map((candidate) => [candidate.address, candidate.profileId, candidate.score])
+  );
+}
+
+async function hashCandidates(candidates: EthosCandidate[]): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(candidatesToCsv(candidates)));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function deleteGeneration(generation: string): Promise<void> {
+  const kv = await getKv();
+  const keys: Deno.KvKey[] = [];
+  for await (const entry of kv.list({ prefix: ["ethos_candidates", generation] })) {
+    keys.push(entry.key);
+  }
+  await commitInBatches(keys, (op, key) => {
+    op.delete(key);
+  });
+}
+
+// Store a discovery as the current candidate set, replacing the previous
+// generation. Returns the stored set and whether it differs from the last one.
+export async function saveCandidateSet(discovery: Discovery): Promise<{ set: CandidateSet; changed: boolean }> {
+  const kv = await getKv();
+  const current = await kv.get<CandidateSet>(CURRENT_SET_KEY);
+  const hash = await hashCandidates(discovery.candidates);
+  const now = Date.now();
+
+  const summary = {
+    hash,
+    minScore: discovery.minScore,
+    lastProfileId: discovery.lastProfileId,
+    profiles: discovery.profiles,
+    addresses: discovery.candidates.length,
+    discoveredAt: now,
+  };
+
+  if (current.value?.hash === hash) {
+    const set: CandidateSet = { ...current.value, ...summary };
+    const result = await kv.atomic().check(current).set(CURRENT_SET_KEY, set).commit();
+    if (!result.ok) {
+      throw new DiscoveryError("Candidate set changed while it was being saved");
+    }
+    return { set, changed: false };
+  }
+
+  const generation = crypto.randomUUID();
+  await commitInBatches(discovery.candidates, (op, { address, profileId, score }) => {
+    op.set(candidateKey(generation, address), { profileId, score });
+  });
+
+  const set: CandidateSet = { ...summary, generation, changedAt: now };
+  const result = await kv.atomic().check(current).set(CURRENT_SET_KEY, set).commit();
+  if (!result.ok) {
+    await deleteGeneration(generation);
+    throw new DiscoveryError("Candidate set changed while it was being saved");
+  }
+  if (current.value) {
+    await deleteGeneration(current.value.generation);
+  }
+  return { set, changed: true };
+}
+
+// Discover and store the candidate set, holding the discovery lock. Returns
+// null if another discovery is running.
+export async function runEthosDiscovery(
+  options: DiscoveryOptions = {}
+): Promise<{ set: CandidateSet; changed: boolean } | null> {
+  const lock = await acquireLock(DISCOVERY_LOCK, DISCOVERY_LOCK_TTL_MS);
+  if (!lock) {
+    return null;
+  }
+  try {
+    return await saveCandidateSet(await discoverCandidates(options));
+  } finally {
+    await releaseLock(DISCOVERY_LOCK, lock);
+  }
+}
+
+// The current candidate set, or null if discovery hasn't run yet
+export async function getCandidateSet(): Promise<CandidateSet | null> {
+  const kv = await getKv();
+  return (await kv.get<CandidateSet>(CURRENT_SET_KEY)).value;
+}
+
+// Candidates in the current set, sorted by address
+export async function listCandidates(): Promise<EthosCandidate[]> {
+  const set = await getCandidateSet();
+  if (!set) {
+    return [];
+  }
+
+  const kv = await getKv();
+  const candidates: EthosCandidate[] = [];
+  for await (
+    const entry of kv.list<{ profileId: number; score: number }>({ prefix: ["ethos_candidates", set.generation] })
+  ) {
+    candidates.push({ address: entry.key[2] as string, ...entry.value });
+  }
+  return candidates;
+}
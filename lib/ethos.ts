@@ -25,17 +25,50 @@ export interface EthosProfile {
 }
 
 export interface EthosUserData {
+  profileId: number | null; // null if the address has no Ethos profile
   score: number;
   xp: number; // Contributor XP
   reviews: number;
   vouches: number;
   vouchesReceived: number;
+  addresses: string[]; // Every address linked to the user (primary, embedded, smart wallet, ...)
+}
+
+// The allAddresses part of an internal users response
+interface EthosAllAddresses {
+  addresses?: string[];
+  primaryAddress?: string | null;
+  embeddedWallet?: string | null;
+  smartWallet?: string | null;
 }
 
 export interface BulkScoreResponse {
   [address: string]: EthosScore | null;
 }
 
+// Whether an address meets MIN_ETHOS_SCORE. "unknown" means the Ethos API
+// couldn't be asked (outage, rate limit, bad response) - not that the score is low.
+export type EligibilityStatus = "eligible" | "ineligible" | "unknown";
+
+export interface AddressEligibility {
+  status: EligibilityStatus;
+  score: number | null; // null when the address has no score, or the status is unknown
+  error?: string; // Why the status is unknown
+}
+
+// Collect all linked addresses from an allAddresses response: regular
+// addresses, primary, embedded, smart wallet
+function collectLinkedAddresses(allAddresses: EthosAllAddresses | undefined, include: string[] = []): string[] {
+  const addresses = new Set<string>(include.map((a) => a.toLowerCase()));
+  for (const a of allAddresses?.addresses ?? []) {
+    addresses.add(a.toLowerCase());
+  }
+  for (const a of [allAddresses?.primaryAddress, allAddresses?.embeddedWallet, allAddresses?.smartWallet]) {
+    if (a) addresses.add(a.toLowerCase());
+  }
+  return Array.from(addresses);
+}
+
 // Fetch full user data including contributor XP
 // Uses the internal API endpoint which returns xpTotal
 export async function getUserData(address: string): Promise<EthosUserData | null> {
@@ -68,12 +101,16 @@ export async function getUserData(address: string): Promise<EthosUserData | null
     const reviewStats = user.stats?.review?.received ?? {};
     const vouchStats = user.stats?.vouch ?? {};
 
+    const addresses = collectLinkedAddresses(data.allAddresses, [address]);
+
     return {
+      profileId: user.profileId ?? null,
       score: user.score ?? 0,
       xp: user.xpTotal ?? 0,
       reviews: (reviewStats.positive ?? 0) + (reviewStats.neutral ?? 0) + (reviewStats.negative ?? 0),
       vouches: vouchStats.given?.count ?? 0,
       vouchesReceived: vouchStats.received?.count ?? 0,
+      addresses,
     };
   } catch (error) {
     console.error(`Error fetching Ethos user data for ${address}:`, error);
@@ -112,6 +149,44 @@ export async function getScoreByAddress(address: string): Promise<EthosScore | n
   }
 }
 
+// Fetch scores for multiple addresses in bulk; throws if the API call fails
+async function fetchBulkScores(addresses: string[]): Promise<BulkScoreResponse> {
+  const response = await fetch(
+    `${ETHOS_API_BASE}/api/v2/score/addresses`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Ethos-Client": ETHOS_CLIENT_ID,
+      },
+      body: JSON.stringify({ addresses }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Ethos API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  
+  // Transform the response to our format
+  const result: BulkScoreResponse = {};
+  for (const address of addresses) {
+    const scoreData = data[address.toLowerCase()] || data[address];
+    if (scoreData) {
+      result[address.toLowerCase()] = {
+        score: scoreData.score ?? 0,
+        reviews: scoreData.reviews,
+        vouches: scoreData.vouches,
+      };
+    } else {
+      result[address.toLowerCase()] = null;
+    }
+  }
+  
+  return result;
+}
+
 // Fetch scores for multiple addresses in bulk
 export async function getScoresByAddresses(addresses: string[]): Promise<BulkScoreResponse> {
   if (addresses.length === 0) {
@@ -119,44 +194,91 @@ export async function getScoresByAddresses(addresses: string[]): Promise<BulkSco
   }
 
   try {
-    const response = await fetch(
-      `${ETHOS_API_BASE}/api/v2/score/addresses`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-Ethos-Client": ETHOS_CLIENT_ID,
-        },
-        body: JSON.stringify({ addresses }),
-      }
-    );
+    return await fetchBulkScores(addresses);
+  } catch (error) {
+    console.error("Error fetching bulk Ethos scores:", error);
+    return {};
+  }
+}
 
-    if (!response.ok) {
-      throw new Error(`Ethos API error: ${response.status}`);
-    }
+// Check eligibility for many addresses. Unlike getScoresByAddresses, an API
+// failure marks the addresses unknown instead of dropping their scores.
+export async function checkEligibility(addresses: string[]): Promise<Map<string, AddressEligibility>> {
+  const results = new Map<string, AddressEligibility>();
+  if (addresses.length === 0) {
+    return results;
+  }
 
-    const data = await response.json();
-    
-    // Transform the response to our format
-    const result: BulkScoreResponse = {};
+  try {
+    const scores = await fetchBulkScores(addresses);
     for (const address of addresses) {
-      const scoreData = data[address.toLowerCase()] || data[address];
-      if (scoreData) {
-        result[address.toLowerCase()] = {
-          score: scoreData.score ?? 0,
-          reviews: scoreData.reviews,
-          vouches: scoreData.vouches,
-        };
-      } else {
-        result[address.toLowerCase()] = null;
-      }
+      const scoreData = scores[address.toLowerCase()];
+      const score = scoreData?.score ?? null;
+      results.set(address.toLowerCase(), {
+        status: score !== null && score >= MIN_ETHOS_SCORE ? "eligible" : "ineligible",
+        score,
+      });
     }
-    
-    return result;
   } catch (error) {
     console.error("Error fetching bulk Ethos scores:", error);
-    return {};
+    for (const address of addresses) {
+      results.set(address.toLowerCase(), { status: "unknown", score: null, error: String(error) });
+    }
   }
+
+  return results;
+}
+
+// Fetch the profiles with the given ids (ids without a profile are left out);
+// throws if the API call fails
+export async function getProfilesByIds(profileIds: number[]): Promise<{ profileId: number; score: number }[]> {
+  if (profileIds.length === 0) {
+    return [];
+  }
+
+  const response = await fetch(
+    `${ETHOS_API_BASE}/api/v2/users/by/profile-id`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Ethos-Client": ETHOS_CLIENT_ID,
+      },
+      body: JSON.stringify({ profileIds }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Ethos API error: ${response.status}`);
+  }
+
+  const users: { profileId?: number | null; score?: number }[] = await response.json();
+  return users
+    .filter((user) => typeof user.profileId === "number")
+    .map((user) => ({ profileId: user.profileId!, score: user.score ?? 0 }));
+}
+
+// Every address linked to a profile (allAddresses); throws if the API call
+// fails, and returns [] if the profile doesn't exist
+export async function getProfileAddresses(profileId: number): Promise<string[]> {
+  const response = await fetch(
+    `${ETHOS_API_BASE}/api/v2/internal/users/profileId:${profileId}`,
+    {
+      headers: {
+        "X-Ethos-Client": ETHOS_CLIENT_ID,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return [];
+    }
+    throw new Error(`Ethos API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return collectLinkedAddresses(data.allAddresses);
 }
 
 // Check if an address meets the minimum score requirement
@@ -166,23 +288,27 @@ export async function isAddressEligible(address: string): Promise<boolean> {
 }
 
 // Filter addresses that meet the minimum score requirement
+// Addresses the Ethos API couldn't be asked about are listed as unknown
 export async function filterEligibleAddresses(
   addresses: string[]
-): Promise<{ eligible: string[]; scores: Map<string, number> }> {
-  const scores = await getScoresByAddresses(addresses);
+): Promise<{ eligible: string[]; scores: Map<string, number>; unknown: string[] }> {
+  const results = await checkEligibility(addresses);
   const eligible: string[] = [];
+  const unknown: string[] = [];
   const scoreMap = new Map<string, number>();
 
-  for (const [address, scoreData] of Object.entries(scores)) {
-    if (scoreData && scoreData.score >= MIN_ETHOS_SCORE) {
+  for (const [address, { status, score }] of results) {
+    if (status === "eligible") {
       eligible.push(address);
+    } else if (status === "unknown") {
+      unknown.push(address);
     }
-    if (scoreData) {
-      scoreMap.set(address.toLowerCase(), scoreData.score);
+    if (score !== null) {
+      scoreMap.set(address, score);
     }
   }
 
-  return { eligible, scores: scoreMap };
+  return { eligible, scores: scoreMap, unknown };
 }
 
 // Get Ethos profile URL for an address
@@ -190,12 +316,21 @@ export function getEthosProfileUrl(address: string): string {
   return `https://app.ethos.network/profile/${address}`;
 }
 
+// Lowest score of each Ethos level
+export const SCORE_LEVEL_MIN_SCORES = {
+  untrusted: 0,
+  questionable: 800,
+  neutral: 1200,
+  reputable: 1600,
+  exemplary: 2000,
+} as const;
+
 // Get score level based on Ethos scoring ranges
-export function getScoreLevel(score: number): "untrusted" | "questionable" | "neutral" | "reputable" | "exemplary" {
-  if (score < 800) return "untrusted";
-  if (score < 1200) return "questionable";
-  if (score < 1600) return "neutral";
-  if (score < 2000) return "reputable";
+export function getScoreLevel(score: number): keyof typeof SCORE_LEVEL_MIN_SCORES {
+  if (score < SCORE_LEVEL_MIN_SCORES.questionable) return "untrusted";
+  if (score < SCORE_LEVEL_MIN_SCORES.neutral) return "questionable";
+  if (score < SCORE_LEVEL_MIN_SCORES.reputable) return "neutral";
+  if (score < SCORE_LEVEL_MIN_SCORES.exemplary) return "reputable";
   return "exemplary";
 }
 
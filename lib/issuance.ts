@@ -0,0 +1,91 @@
+// Issuance limits - a treasury guard around the claim mint path
+//
+// Every claim that is about to mint counts against a total supply ceiling, an
+// hourly and a daily budget, and a per-claim maximum. The counters live in KV
+// and are updated in the same atomic operation that reserves the claim (see
+// claim-store.ts), so concurrent claims can't overshoot a limit. A claim that
+// would break a limit is held for manual review instead of minting.
+//
+// Limits are whole ethosUSD and unlimited when unset:
+//   CLAIM_SUPPLY_CEILING, CLAIM_DAILY_BUDGET, CLAIM_HOURLY_BUDGET, CLAIM_MAX_PER_CLAIM
+
+export interface IssuanceLimits {
+  supplyCeiling?: bigint; // Token units all claims together may mint
+  dailyBudget?: bigint; // Token units per UTC day
+  hourlyBudget?: bigint; // Token units per UTC hour
+  maxPerClaim?: bigint; // Token units a single claim may mint
+}
+
+export interface IssuanceUsage {
+  total: bigint; // Reserved, minted and confirmed claims
+  day: bigint;
+  hour: bigint;
+}
+
+export type IssuanceLimit = keyof IssuanceLimits;
+
+// Read a whole-ethosUSD limit from the environment
+function readLimit(name: string): bigint | undefined {
+  const value = Deno.env.get(name);
+  if (!value) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${name} must be a whole number of ethosUSD`);
+  }
+  return BigInt(value) * 1_000_000n;
+}
+
+export function getIssuanceLimits(): IssuanceLimits {
+  return {
+    supplyCeiling: readLimit("CLAIM_SUPPLY_CEILING"),
+    dailyBudget: readLimit("CLAIM_DAILY_BUDGET"),
+    hourlyBudget: readLimit("CLAIM_HOURLY_BUDGET"),
+    maxPerClaim: readLimit("CLAIM_MAX_PER_CLAIM"),
+  };
+}
+
+// KV keys for the usage counters a claim counted at `time` falls into
+export function issuanceKeys(time: number) {
+  const iso = new Date(time).toISOString();
+  return {
+    total: ["issuance", "total"],
+    day: ["issuance", "day", iso.slice(0, 10)],
+    hour: ["issuance", "hour", iso.slice(0, 13)],
+  };
+}
+
+// The first limit an amount would break, if any
+export function checkIssuance(
+  limits: IssuanceLimits,
+  usage: IssuanceUsage,
+  amount: bigint
+): IssuanceLimit | null {
+  if (limits.maxPerClaim !== undefined && amount > limits.maxPerClaim) {
+    return "maxPerClaim";
+  }
+  if (limits.supplyCeiling !== undefined && usage.total + amount > limits.supplyCeiling) {
+    return "supplyCeiling";
+  }
+  if (limits.dailyBudget !== undefined && usage.day + amount > limits.dailyBudget) {
+    return "dailyBudget";
+  }
+  if (limits.hourlyBudget !== undefined && usage.hour + amount > limits.hourlyBudget) {
+    return "hourlyBudget";
+  }
+  return null;
+}
+
+// Human readable reason a claim was held
+export function describeIssuanceLimit(limit: IssuanceLimit): string {
+  switch (limit) {
+    case "maxPerClaim":
+      return "Claim exceeds the per-claim maximum";
+    case "supplyCeiling":
+      return "Claim would exceed the total supply ceiling";
+    case "dailyBudget":
+      return "Claim would exceed the daily mint budget";
+    case "hourlyBudget":
+      return "Claim would exceed the hourly mint budget";
+  }
+}
@@ -0,0 +1,126 @@
+// Shared Deno KV connection
+// KV_PATH can point at a local file or a remote KV database; when unset,
+// Deno's default KV is used (shared across instances on Deno Deploy)
+//
+// Also provides lease locks for background jobs that must not run twice at
+// once, and the lease every admin-key sender holds while it assigns nonces.
+
+let kv: Promise<Deno.Kv> | null = null;
+
+export function getKv(): Promise<Deno.Kv> {
+  if (!kv) {
+    kv = Deno.openKv(Deno.env.get("KV_PATH") || undefined);
+  }
+  return kv;
+}
+
+// Deno KV caps the number of mutations in one atomic operation
+const KV_BATCH_SIZE = 500;
+
+// Apply a mutation per item, KV_BATCH_SIZE to an atomic operation. The
+// batches commit independently, so the writes must be safe to repeat.
+export async function commitInBatches<T>(
+  items: T[],
+  mutate: (op: Deno.AtomicOperation, item: T) => void | Promise<void>
+): Promise<void> {
+  const db = await getKv();
+  for (let i = 0; i < items.length; i += KV_BATCH_SIZE) {
+    const op = db.atomic();
+    for (const item of items.slice(i, i + KV_BATCH_SIZE)) {
+      await mutate(op, item);
+    }
+    await op.commit();
+  }
+}
+
+interface LockRecord {
+  token: string;
+  expiresAt: number;
+}
+
+// Take a named lease lock. Returns a token to renew/release it with, or null
+// if someone else holds it. Leases expire on their own if the holder dies.
+export async function acquireLock(name: string, ttlMs: number): Promise<string | null> {
+  const db = await getKv();
+  const key = ["locks", name];
+  const entry = await db.get<LockRecord>(key);
+
+  // KV expiry isn't immediate, so check the lease ourselves
+  if (entry.value && entry.value.expiresAt > Date.now()) {
+    return null;
+  }
+
+  const token = crypto.randomUUID();
+  const result = await db.atomic()
+    .check(entry)
+    .set(key, { token, expiresAt: Date.now() + ttlMs } satisfies LockRecord, { expireIn: ttlMs })
+    .commit();
+  return result.ok ? token : null;
+}
+
+// Extend a lease we hold. Returns false if it was lost.
+export async function renewLock(name: string, token: string, ttlMs: number): Promise<boolean> {
+  const db = await getKv();
+  const key = ["locks", name];
+  const entry = await db.get<LockRecord>(key);
+  if (entry.value?.token !== token) {
+    return false;
+  }
+  const result = await db.atomic()
+    .check(entry)
+    .set(key, { token, expiresAt: Date.now() + ttlMs } satisfies LockRecord, { expireIn: ttlMs })
+    .commit();
+  return result.ok;
+}
+
+// Release a lease we hold
+export async function releaseLock(name: string, token: string): Promise<void> {
+  const db = await getKv();
+  const key = ["locks", name];
+  const entry = await db.get<LockRecord>(key);
+  if (entry.value?.token === token) {
+    await db.atomic().check(entry).delete(key).commit();
+  }
+}
+
+// Every transaction signed with the admin key (claim mints, whitelist writes,
+// policy changes) draws from one nonce sequence. Senders take nonces from the
+// pending transaction count, so two of them sending at once would pick the
+// same nonces and replace each other's transactions. They hold this lease
+// from reading the nonce until their transactions are broadcast.
+const ADMIN_NONCE_LOCK = "admin-nonce";
+
+// Renewed by the holder between transactions
+const ADMIN_NONCE_TTL_MS = 60 * 1000;
+
+// How long a sender waits for another to finish broadcasting
+const ADMIN_NONCE_WAIT_MS = 3 * 60 * 1000;
+
+export class AdminNonceBusyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AdminNonceBusyError";
+  }
+}
+
+// Run fn holding the admin nonce lease, waiting for it if another sender has
+// it. fn gets a renew function to call between transactions; once it returns
+// false the lease is lost and fn must stop sending.
+export async function withAdminNonces<T>(fn: (renew: () => Promise<boolean>) => Promise<T>): Promise<T> {
+  const deadline = Date.now() + ADMIN_NONCE_WAIT_MS;
+  let token = await acquireLock(ADMIN_NONCE_LOCK, ADMIN_NONCE_TTL_MS);
+  while (!token) {
+    if (Date.now() > deadline) {
+      throw new AdminNonceBusyError("Another admin transaction sender held the nonce lease for too long");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    token = await acquireLock(ADMIN_NONCE_LOCK, ADMIN_NONCE_TTL_MS);
+  }
+
+  const lease = token;
+  try {
+    return await fn(() => renewLock(ADMIN_NONCE_LOCK, lease, ADMIN_NONCE_TTL_MS));
+  } finally {
+    await releaseLock(ADMIN_NONCE_LOCK, lease);
+  }
+}
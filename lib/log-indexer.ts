@@ -0,0 +1,109 @@
+// Log indexer - the block-range loop shared by the event indexes (the mint
+// history, the whitelist mirror and the transfer index)
+//
+// Tempo's RPC limits how many blocks (and results) a single eth_getLogs call
+// may span. An index is walked from its cursor towards the chain head in
+// LOG_BLOCK_RANGE ranges; a range the RPC refuses is split in half down to
+// MIN_LOG_BLOCK_RANGE. Each range's logs are handed to the index to store
+// (idempotently - a range may be replayed), then the cursor is advanced. Only
+// the cursor write is guarded, so a concurrent sync stops at the first
+// conflict and the two share progress.
+
+import { createTempoPublicClient } from "./tempo.ts";
+import { getKv } from "./kv.ts";
+
+// Blocks per eth_getLogs request
+const LOG_BLOCK_RANGE = 10_000n;
+const MIN_LOG_BLOCK_RANGE = 100n;
+
+// Upper bound on log requests per sync, so a cold index can't stall its caller
+const MAX_RANGES_PER_SYNC = 50;
+
+// Parallel getBlock calls when looking up log timestamps
+const BLOCK_FETCH_CONCURRENCY = 20;
+
+export interface LogIndexProgress {
+  indexedToBlock: number; // Last block whose logs are indexed
+  latestBlock: number; // Chain head seen by the last sync
+  updatedAt: number;
+}
+
+export interface LogIndex<T, S extends LogIndexProgress> {
+  cursorKey: Deno.KvKey;
+  startBlock: bigint; // First block to index, e.g. the contract's deployment block
+  getLogs: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>;
+  storeLogs: (logs: T[]) => Promise<void>;
+  toState: (progress: LogIndexProgress) => S; // Adds the index's own fields to its cursor
+}
+
+// Logs in a block range, splitting the range while the RPC refuses it
+export async function getLogsInRange<T>(
+  getLogs: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<T[]> {
+  try {
+    return await getLogs(fromBlock, toBlock);
+  } catch (error) {
+    if (toBlock - fromBlock + 1n <= MIN_LOG_BLOCK_RANGE) {
+      throw error;
+    }
+    const middle = fromBlock + (toBlock - fromBlock) / 2n;
+    const first = await getLogsInRange(getLogs, fromBlock, middle);
+    const second = await getLogsInRange(getLogs, middle + 1n, toBlock);
+    return [...first, ...second];
+  }
+}
+
+// Block timestamps (ms) for the blocks a range of logs touched
+export async function getBlockTimestamps(blockNumbers: bigint[]): Promise<Map<bigint, number>> {
+  const publicClient = createTempoPublicClient();
+  const timestamps = new Map<bigint, number>();
+  const unique = [...new Set(blockNumbers)];
+
+  for (let i = 0; i < unique.length; i += BLOCK_FETCH_CONCURRENCY) {
+    await Promise.all(unique.slice(i, i + BLOCK_FETCH_CONCURRENCY).map(async (blockNumber) => {
+      const block = await publicClient.getBlock({ blockNumber });
+      timestamps.set(blockNumber, Number(block.timestamp) * 1000);
+    }));
+  }
+
+  return timestamps;
+}
+
+// Index logs up to the chain head (or as far as one sync is allowed to go)
+export async function syncLogIndex<T, S extends LogIndexProgress>(index: LogIndex<T, S>): Promise<S> {
+  const kv = await getKv();
+  const publicClient = createTempoPublicClient();
+
+  const cursor = await kv.get<S>(index.cursorKey);
+  const latestBlock = await publicClient.getBlockNumber();
+  let fromBlock = cursor.value ? BigInt(cursor.value.indexedToBlock) + 1n : index.startBlock;
+  let entry = cursor;
+
+  for (let i = 0; i < MAX_RANGES_PER_SYNC && fromBlock <= latestBlock; i++) {
+    const toBlock = fromBlock + LOG_BLOCK_RANGE - 1n < latestBlock ? fromBlock + LOG_BLOCK_RANGE - 1n : latestBlock;
+
+    await index.storeLogs(await getLogsInRange(index.getLogs, fromBlock, toBlock));
+
+    const state = index.toState({
+      indexedToBlock: Number(toBlock),
+      latestBlock: Number(latestBlock),
+      updatedAt: Date.now(),
+    });
+    const result = await kv.atomic().check(entry).set(index.cursorKey, state).commit();
+    if (!result.ok) {
+      // Someone else is indexing - use their progress
+      break;
+    }
+
+    entry = { ...entry, value: state, versionstamp: result.versionstamp };
+    fromBlock = toBlock + 1n;
+  }
+
+  return (await kv.get<S>(index.cursorKey)).value ?? index.toState({
+    indexedToBlock: Number(index.startBlock) - 1,
+    latestBlock: Number(latestBlock),
+    updatedAt: Date.now(),
+  });
+}
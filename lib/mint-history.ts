@@ -0,0 +1,99 @@
+// Mint history - ethosUSD mints indexed from Transfer events
+//
+// A mint is a Transfer from the zero address. Holding a balance says nothing
+// about whether someone claimed (tokens can be sent between users), so claim
+// detection uses the mints the project itself made instead. The index is built
+// up in block ranges by the shared log indexer (see log-indexer.ts), with the
+// last indexed block kept in KV.
+
+import { parseAbiItem, zeroAddress } from "viem";
+import { CONTRACTS } from "./contracts.ts";
+import { createTempoPublicClient } from "./tempo.ts";
+import { commitInBatches, getKv } from "./kv.ts";
+import { type LogIndexProgress, syncLogIndex } from "./log-indexer.ts";
+
+const TRANSFER_EVENT = parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 value)");
+
+// The index is trusted as complete only if a sync caught up this recently
+const MINT_INDEX_MAX_AGE_MS = 5 * 60 * 1000;
+
+export interface MintEvent {
+  to: string;
+  amount: bigint;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface MintIndexState extends LogIndexProgress {
+  token: string;
+}
+
+const cursorKey = () => ["mint_index", CONTRACTS.ETHOS_USD_TOKEN.toLowerCase()];
+const mintKey = (to: string, blockNumber: number, logIndex: number) => [
+  "mints",
+  CONTRACTS.ETHOS_USD_TOKEN.toLowerCase(),
+  to.toLowerCase(),
+  blockNumber,
+  logIndex,
+];
+
+// First block to index - the token's deployment block, if known
+function getStartBlock(): bigint {
+  return BigInt(Deno.env.get("ETHOS_USD_START_BLOCK") || "0");
+}
+
+// Index mints up to the chain head (or as far as one sync is allowed to go)
+export async function syncMintHistory(): Promise<MintIndexState> {
+  const publicClient = createTempoPublicClient();
+
+  return await syncLogIndex({
+    cursorKey: cursorKey(),
+    startBlock: getStartBlock(),
+    getLogs: (fromBlock, toBlock) =>
+      publicClient.getLogs({
+        address: CONTRACTS.ETHOS_USD_TOKEN,
+        event: TRANSFER_EVENT,
+        args: { from: zeroAddress },
+        fromBlock,
+        toBlock,
+      }),
+    // Mints are keyed by their log position, so writing them twice is harmless
+    storeLogs: (logs) =>
+      commitInBatches(logs, (op, log) => {
+        const mint: MintEvent = {
+          to: log.args.to!.toLowerCase(),
+          amount: log.args.value!,
+          txHash: log.transactionHash,
+          blockNumber: Number(log.blockNumber),
+          logIndex: log.logIndex,
+        };
+        op.set(mintKey(mint.to, mint.blockNumber, mint.logIndex), mint);
+      }),
+    toState: (progress) => ({ token: CONTRACTS.ETHOS_USD_TOKEN.toLowerCase(), ...progress }),
+  });
+}
+
+// Indexed mints to any of the given addresses, oldest first
+export async function getMints(addresses: string[]): Promise<MintEvent[]> {
+  const kv = await getKv();
+  const mints: MintEvent[] = [];
+  for (const address of new Set(addresses.map((a) => a.toLowerCase()))) {
+    const prefix = ["mints", CONTRACTS.ETHOS_USD_TOKEN.toLowerCase(), address];
+    for await (const entry of kv.list<MintEvent>({ prefix })) {
+      mints.push(entry.value);
+    }
+  }
+  return mints.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+// The index as the background sync (see main.ts) left it, or null if it hasn't run
+export async function getMintIndexState(): Promise<MintIndexState | null> {
+  const kv = await getKv();
+  return (await kv.get<MintIndexState>(cursorKey())).value;
+}
+
+// Whether a recent sync had caught the index up with the chain head
+export function isMintIndexComplete(state: MintIndexState | null): boolean {
+  return state !== null && state.indexedToBlock >= state.latestBlock && Date.now() - state.updatedAt < MINT_INDEX_MAX_AGE_MS;
+}
@@ -0,0 +1,220 @@
+// Reward policy - turns Contributor XP into a claimable ethosUSD amount
+//
+// Policies are versioned and loaded from a JSON file (REWARD_POLICY_PATH,
+// default ./data/reward-policy.json). Every claim records the version that
+// priced it, and the first time a version is used its full definition is
+// stored in KV, so past claims can always be audited against the exact rules
+// that produced them. Changing a policy without bumping its version is refused.
+
+import { getScoreLevel } from "./ethos.ts";
+import { getKv } from "./kv.ts";
+
+export type ScoreLevel = ReturnType<typeof getScoreLevel>;
+
+export interface DecayStep {
+  from: string; // ISO date the step takes effect
+  factor: number; // Multiplier applied to rewards from this date on
+}
+
+export interface RewardPolicy {
+  version: string;
+  tokensPerXp: number; // Base rate, in whole ethosUSD
+  scoreMultipliers: Record<ScoreLevel, number>;
+  minScore: number; // Profiles below this score can't claim
+  maxPerUser: number | null; // Cumulative ethosUSD cap per profile
+  globalBudget: number | null; // Total ethosUSD all claims may mint
+  decay: DecayStep[]; // Later steps override earlier ones
+}
+
+export interface RewardInput {
+  xp: number; // XP being paid (the delta since the last claim)
+  score: number;
+  paidAmount: bigint; // Token units already paid to the account
+  totalIssued: bigint; // Token units already paid to everyone
+  now?: number;
+}
+
+export interface RewardResult {
+  amount: bigint; // Token units (6 decimals)
+  policyVersion: string;
+  multiplier: number; // Score multiplier times decay factor
+  cappedBy?: "maxPerUser" | "globalBudget";
+  error?: string;
+}
+
+// 1 XP = 1 ethosUSD for everyone - the rule before policies existed
+export const DEFAULT_REWARD_POLICY: RewardPolicy = {
+  version: "1",
+  tokensPerXp: 1,
+  scoreMultipliers: {
+    untrusted: 1,
+    questionable: 1,
+    neutral: 1,
+    reputable: 1,
+    exemplary: 1,
+  },
+  minScore: 0,
+  maxPerUser: null,
+  globalBudget: null,
+  decay: [],
+};
+
+const TOKEN_UNITS = 1_000_000;
+
+export class RewardPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RewardPolicyError";
+  }
+}
+
+// Check a parsed policy file and fill in defaults
+export function parseRewardPolicy(raw: unknown): RewardPolicy {
+  if (!raw || typeof raw !== "object") {
+    throw new RewardPolicyError("Reward policy must be a JSON object");
+  }
+  const input = raw as Partial<RewardPolicy>;
+
+  if (!input.version || typeof input.version !== "string") {
+    throw new RewardPolicyError("Reward policy needs a string version");
+  }
+
+  const policy: RewardPolicy = {
+    ...DEFAULT_REWARD_POLICY,
+    ...input,
+    scoreMultipliers: { ...DEFAULT_REWARD_POLICY.scoreMultipliers, ...input.scoreMultipliers },
+    decay: [...(input.decay ?? [])].sort((a, b) => Date.parse(a.from) - Date.parse(b.from)),
+  };
+
+  const numbers = [policy.tokensPerXp, policy.minScore, ...Object.values(policy.scoreMultipliers)];
+  if (numbers.some((n) => typeof n !== "number" || !Number.isFinite(n) || n < 0)) {
+    throw new RewardPolicyError(`Reward policy ${policy.version} has a negative or non-numeric rate`);
+  }
+  for (const limit of [policy.maxPerUser, policy.globalBudget]) {
+    if (limit !== null && (typeof limit !== "number" || limit < 0)) {
+      throw new RewardPolicyError(`Reward policy ${policy.version} has an invalid cap`);
+    }
+  }
+  for (const step of policy.decay) {
+    if (Number.isNaN(Date.parse(step.from)) || typeof step.factor !== "number" || step.factor < 0) {
+      throw new RewardPolicyError(`Reward policy ${policy.version} has an invalid decay step`);
+    }
+  }
+
+  return policy;
+}
+
+// Decay factor in effect at a point in time
+function getDecayFactor(policy: RewardPolicy, now: number): number {
+  let factor = 1;
+  for (const step of policy.decay) {
+    if (Date.parse(step.from) <= now) {
+      factor = step.factor;
+    }
+  }
+  return factor;
+}
+
+// Price a claim under a policy
+export function computeReward(policy: RewardPolicy, input: RewardInput): RewardResult {
+  const base = { amount: 0n, policyVersion: policy.version, multiplier: 0 };
+
+  if (input.score < policy.minScore) {
+    return { ...base, error: `An Ethos score of at least ${policy.minScore} is required to claim.` };
+  }
+
+  const multiplier = policy.scoreMultipliers[getScoreLevel(input.score)] * getDecayFactor(policy, input.now ?? Date.now());
+  let amount = BigInt(Math.floor(input.xp * policy.tokensPerXp * multiplier * TOKEN_UNITS));
+  let cappedBy: RewardResult["cappedBy"];
+
+  if (policy.maxPerUser !== null) {
+    const remaining = BigInt(policy.maxPerUser * TOKEN_UNITS) - input.paidAmount;
+    if (remaining <= 0n) {
+      return { ...base, multiplier, error: "You've reached the maximum ethosUSD a profile can claim." };
+    }
+    if (amount > remaining) {
+      amount = remaining;
+      cappedBy = "maxPerUser";
+    }
+  }
+
+  const globalBudget = getGlobalBudget(policy);
+  if (globalBudget !== null) {
+    const remaining = globalBudget - input.totalIssued;
+    if (remaining <= 0n) {
+      return { ...base, multiplier, error: "The ethosUSD reward budget has been fully claimed." };
+    }
+    if (amount > remaining) {
+      amount = remaining;
+      cappedBy = "globalBudget";
+    }
+  }
+
+  return { amount, policyVersion: policy.version, multiplier, cappedBy };
+}
+
+// The policy's global budget in token units, or null if it has none
+export function getGlobalBudget(policy: RewardPolicy): bigint | null {
+  return policy.globalBudget === null ? null : BigInt(Math.floor(policy.globalBudget * TOKEN_UNITS));
+}
+
+// JSON with object keys sorted, so reordering a policy file's keys doesn't
+// look like an edit
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+}
+
+// Store a policy version the first time it is used; refuse edited versions
+async function recordPolicyVersion(policy: RewardPolicy): Promise<void> {
+  const kv = await getKv();
+  const key = ["reward_policies", policy.version];
+  const existing = await kv.get<RewardPolicy>(key);
+
+  if (existing.value) {
+    if (canonicalJson(existing.value) !== canonicalJson(policy)) {
+      throw new RewardPolicyError(
+        `Reward policy ${policy.version} differs from the version already used for claims - bump its version`
+      );
+    }
+    return;
+  }
+
+  await kv.atomic().check(existing).set(key, policy).commit();
+}
+
+let rewardPolicy: Promise<RewardPolicy> | null = null;
+
+// Load the active reward policy (cached for the life of the process)
+export function getRewardPolicy(): Promise<RewardPolicy> {
+  if (!rewardPolicy) {
+    rewardPolicy = (async () => {
+      const path = Deno.env.get("REWARD_POLICY_PATH") || "./data/reward-policy.json";
+      let policy = DEFAULT_REWARD_POLICY;
+      try {
+        policy = parseRewardPolicy(JSON.parse(await Deno.readTextFile(path)));
+      } catch (err) {
+        if (!(err instanceof Deno.errors.NotFound)) {
+          throw err;
+        }
+        console.warn(`No reward policy at ${path}, using the default policy`);
+      }
+      await recordPolicyVersion(policy);
+      return policy;
+    })();
+    // Don't cache a failed load
+    rewardPolicy.catch(() => {
+      rewardPolicy = null;
+    });
+  }
+  return rewardPolicy;
+}
+
+// Look up a policy version used by past claims
+export async function getRecordedPolicy(version: string): Promise<RewardPolicy | null> {
+  const kv = await getKv();
+  return (await kv.get<RewardPolicy>(["reward_policies", version])).value;
+}
@@ -1,4 +1,14 @@
-import { createPublicClient, createWalletClient, http, type PublicClient, type WalletClient, type Chain, type Account } from "viem";
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  TransactionReceiptNotFoundError,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+  type Chain,
+  type Account,
+} from "viem";
 import * as viemAccounts from "npm:viem@2.21.54/accounts";
 
 // Tempo Testnet chain definition
@@ -45,6 +55,23 @@ export function createTempoWalletClient(privateKey: `0x${string}`): WalletClient
   });
 }
 
+// Fetch a transaction's receipt, or null if it hasn't been mined. Any other
+// error (timeout, rate limit, RPC outage) is thrown, so an outage is never
+// mistaken for a missing transaction.
+export async function getReceiptIfMined(
+  publicClient: PublicClient,
+  hash: `0x${string}`
+): Promise<TransactionReceipt | null> {
+  try {
+    return await publicClient.getTransactionReceipt({ hash });
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
 // Get the admin private key from environment
 export function getAdminPrivateKey(): `0x${string}` {
   const key = Deno.env.get("ADMIN_PRIVATE_KEY");
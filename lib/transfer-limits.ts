@@ -0,0 +1,140 @@
+// Transfer limits - per-tier daily caps on sends made through the app
+//
+// Transfers are signed in the user's wallet, so the chain can't enforce these
+// caps. The send form asks for the sender's allowance before sending. Usage
+// isn't reported by the client: every ethosUSD Transfer is indexed from the
+// chain by the shared log indexer (see log-indexer.ts, kept current by a
+// background job in main.ts) and counted against its sender's UTC day, so
+// transfers made outside the app count too.
+
+import { getAbiItem, zeroAddress } from "viem";
+import { CONTRACTS, TIP20_ABI } from "./contracts.ts";
+import { createTempoPublicClient } from "./tempo.ts";
+import { commitInBatches, getKv } from "./kv.ts";
+import { getBlockTimestamps, type LogIndexProgress, syncLogIndex } from "./log-indexer.ts";
+import { getAddressTier, type WhitelistTier } from "./whitelist-tiers.ts";
+
+const TRANSFER_EVENT = getAbiItem({ abi: TIP20_ABI, name: "Transfer" });
+
+// Indexed transfers outlive their UTC day, then expire
+const USAGE_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+
+// Usage is only trusted if a sync caught the index up this recently
+const TRANSFER_INDEX_MAX_AGE_MS = 5 * 60 * 1000;
+
+export interface TransferAllowance {
+  address: string;
+  tier: WhitelistTier | null;
+  dailyLimit: bigint | null; // null is unlimited
+  sentToday: bigint;
+  remaining: bigint | null; // null is unlimited
+}
+
+export interface TransferIndexState extends LogIndexProgress {
+  token: string;
+}
+
+export class TransferIndexError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransferIndexError";
+  }
+}
+
+const utcDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const cursorKey = () => ["transfer_index", CONTRACTS.ETHOS_USD_TOKEN.toLowerCase()];
+const transferKey = (from: string, day: string, blockNumber: number, logIndex: number) => [
+  "transfers",
+  CONTRACTS.ETHOS_USD_TOKEN.toLowerCase(),
+  from.toLowerCase(),
+  day,
+  blockNumber,
+  logIndex,
+];
+
+// First block to index - the token's deployment block, if known
+function getStartBlock(): bigint {
+  return BigInt(Deno.env.get("ETHOS_USD_START_BLOCK") || "0");
+}
+
+// Index transfers up to the chain head (or as far as one sync is allowed to go)
+export async function syncTransferIndex(): Promise<TransferIndexState> {
+  const publicClient = createTempoPublicClient();
+
+  return await syncLogIndex({
+    cursorKey: cursorKey(),
+    startBlock: getStartBlock(),
+    getLogs: (fromBlock, toBlock) =>
+      publicClient.getLogs({
+        address: CONTRACTS.ETHOS_USD_TOKEN,
+        event: TRANSFER_EVENT,
+        fromBlock,
+        toBlock,
+      }),
+    // Transfers are keyed by their log position, so writing them twice is harmless
+    storeLogs: async (logs) => {
+      // Mints have no sender to charge
+      const sends = logs.filter((log) => log.args.from!.toLowerCase() !== zeroAddress);
+      const timestamps = await getBlockTimestamps(sends.map((log) => log.blockNumber));
+      const now = Date.now();
+      const recent = sends.filter((log) => now - timestamps.get(log.blockNumber)! < USAGE_TTL_MS);
+
+      await commitInBatches(recent, (op, log) => {
+        const minedAt = timestamps.get(log.blockNumber)!;
+        op.set(
+          transferKey(log.args.from!, utcDay(minedAt), Number(log.blockNumber), log.logIndex),
+          log.args.value!,
+          { expireIn: USAGE_TTL_MS - (now - minedAt) }
+        );
+      });
+    },
+    toState: (progress) => ({ token: CONTRACTS.ETHOS_USD_TOKEN.toLowerCase(), ...progress }),
+  });
+}
+
+// The index as the background sync left it, or null if it hasn't run
+export async function getTransferIndexState(): Promise<TransferIndexState | null> {
+  const kv = await getKv();
+  return (await kv.get<TransferIndexState>(cursorKey())).value;
+}
+
+// Whether a recent sync had caught the index up with the chain head
+export function isTransferIndexCurrent(state: TransferIndexState | null): boolean {
+  return state !== null && state.indexedToBlock >= state.latestBlock &&
+    Date.now() - state.updatedAt < TRANSFER_INDEX_MAX_AGE_MS;
+}
+
+// Token units an address has sent today (UTC), from the transfer index
+async function getSentToday(address: string): Promise<bigint> {
+  const kv = await getKv();
+  const prefix = ["transfers", CONTRACTS.ETHOS_USD_TOKEN.toLowerCase(), address.toLowerCase(), utcDay(Date.now())];
+  let sent = 0n;
+  for await (const entry of kv.list<bigint>({ prefix })) {
+    sent += entry.value;
+  }
+  return sent;
+}
+
+// The sender's tier and what's left of its daily limit. Throws a
+// TransferIndexError if the index is behind, since usage would be undercounted.
+export async function getTransferAllowance(address: string): Promise<TransferAllowance> {
+  const tier = await getAddressTier(address);
+  const dailyLimit = tier?.dailyLimit ?? null;
+
+  let sentToday = 0n;
+  if (dailyLimit !== null) {
+    if (!isTransferIndexCurrent(await getTransferIndexState())) {
+      throw new TransferIndexError("Transfer history is still being indexed, try again later");
+    }
+    sentToday = await getSentToday(address);
+  }
+
+  return {
+    address: address.toLowerCase(),
+    tier: tier?.tier ?? null,
+    dailyLimit,
+    sentToday,
+    remaining: dailyLimit === null ? null : dailyLimit > sentToday ? dailyLimit - sentToday : 0n,
+  };
+}
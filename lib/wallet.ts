@@ -295,22 +295,16 @@ export async function sendTransaction(params: {
   return txHash;
 }
 
-// Sign a message using window.ethereum
-export async function signMessage(message: string, from: Address): Promise<`0x${string}`> {
+// Sign EIP-712 typed data using window.ethereum
+export async function signTypedData(typedData: unknown, from: Address): Promise<`0x${string}`> {
   if (!isWalletAvailable()) {
     throw new Error("Wallet not available");
   }
   
   const signature = await window.ethereum!.request({
-    method: "personal_sign",
-    params: [message, from],
+    method: "eth_signTypedData_v4",
+    params: [from, JSON.stringify(typedData)],
   }) as `0x${string}`;
   
   return signature;
 }
-
-// Generate a claim message for signing
-export function getClaimMessage(address: string, timestamp: number): string {
-  return `I am claiming my $ethosUSD tokens for address ${address.toLowerCase()} at timestamp ${timestamp}`;
-}
-
@@ -0,0 +1,107 @@
+// Whitelist audit log
+//
+// Every confirmed whitelist add or remove is appended to KV with the reason,
+// the score and threshold it was decided on, the transaction hash, what
+// triggered it and who. Entries are keyed by time and never updated or
+// deleted, so the log is an append-only trail for compliance review.
+
+import { getKv } from "./kv.ts";
+import { toCsv } from "./csv.ts";
+import type { WhitelistPlanReason } from "./whitelist.ts";
+
+export type WhitelistAuditTrigger = "cron" | "api" | "script" | "manual";
+
+export type WhitelistAuditReason =
+  | WhitelistPlanReason
+  | "csv_upload" // Listed in an uploaded CSV
+  | "manual" // Listed by hand on the command line
+  | "eligible"; // Single address added after a score check
+
+// Who and what started the writes
+export interface WhitelistAuditContext {
+  trigger: WhitelistAuditTrigger;
+  operator: string; // Person or process responsible, e.g. "scheduler" or a username
+  runId?: string; // Sync run or job the change belongs to
+}
+
+export interface WhitelistAuditEntry {
+  id: string;
+  at: number;
+  policyId: string;
+  address: string;
+  action: "add" | "remove";
+  reason: WhitelistAuditReason | null;
+  score: number | null; // Ethos score at decision time
+  threshold: number | null; // Score the decision was compared against
+  txHash: string;
+  trigger: WhitelistAuditTrigger;
+  operator: string;
+  runId: string | null;
+}
+
+export interface WhitelistAuditFilter {
+  address?: string;
+  action?: WhitelistAuditEntry["action"];
+  trigger?: WhitelistAuditTrigger;
+  from?: number;
+  to?: number;
+}
+
+// Audit context for code that didn't say - a CLI run by whoever is logged in
+export function getDefaultAuditContext(): WhitelistAuditContext {
+  return { trigger: "script", operator: Deno.env.get("USER") || "unknown" };
+}
+
+// Append an entry to the log
+export async function appendWhitelistAudit(entry: Omit<WhitelistAuditEntry, "id" | "at">): Promise<WhitelistAuditEntry> {
+  const kv = await getKv();
+  const full: WhitelistAuditEntry = { id: crypto.randomUUID(), at: Date.now(), ...entry };
+  await kv.set(["whitelist_audit", full.at, full.id], full);
+  return full;
+}
+
+// Entries matching a filter, oldest first
+export async function listWhitelistAudit(filter: WhitelistAuditFilter = {}): Promise<WhitelistAuditEntry[]> {
+  const kv = await getKv();
+  const entries: WhitelistAuditEntry[] = [];
+  const selector = {
+    start: ["whitelist_audit", filter.from ?? 0],
+    end: ["whitelist_audit", (filter.to ?? Number.MAX_SAFE_INTEGER) + 1],
+  };
+
+  for await (const entry of kv.list<WhitelistAuditEntry>(selector)) {
+    const audit = entry.value;
+    if (filter.address && audit.address !== filter.address.toLowerCase()) continue;
+    if (filter.action && audit.action !== filter.action) continue;
+    if (filter.trigger && audit.trigger !== filter.trigger) continue;
+    entries.push(audit);
+  }
+
+  return entries;
+}
+
+const AUDIT_COLUMNS: (keyof WhitelistAuditEntry)[] = [
+  "id",
+  "at",
+  "policyId",
+  "address",
+  "action",
+  "reason",
+  "score",
+  "threshold",
+  "txHash",
+  "trigger",
+  "operator",
+  "runId",
+];
+
+export function whitelistAuditToCsv(entries: WhitelistAuditEntry[]): string {
+  return toCsv(
+    AUDIT_COLUMNS,
+    entries.map((entry) => AUDIT_COLUMNS.map((column) => column === "at" ? new Date(entry.at).toISOString() : entry[column]))
+  );
+}
+
+export function whitelistAuditToJsonl(entries: WhitelistAuditEntry[]): string {
+  return entries.map((entry) => JSON.stringify({ ...entry, at: new Date(entry.at).toISOString() }) + "\n").join("");
+}
@@ -0,0 +1,95 @@
+// Whitelist export and diff
+//
+// Answers "who is on policy N right now, and how does that compare to this
+// list?" from the policy's WhitelistUpdated events (via the mirror, which
+// pages the logs in block ranges the RPC accepts), with current Ethos scores.
+// Blacklist policies authorize everyone they don't restrict, so they can't be
+// exported this way.
+
+import { checkEligibility } from "./ethos.ts";
+import { toCsv } from "./csv.ts";
+import { getPolicyType } from "./whitelist.ts";
+import { catchUpWhitelistMirror, listWhitelistMembers } from "./whitelist-mirror.ts";
+
+// Addresses per Ethos bulk score request
+const SCORE_BATCH_SIZE = 500;
+
+export interface WhitelistExportRow {
+  address: string;
+  score: number | null; // null if the address has no score or Ethos couldn't be reached
+  allowed: boolean;
+  addedAt: string | null;
+  txHash: string | null; // The transaction that set the current state
+}
+
+export interface WhitelistDiff {
+  policyId: string;
+  onChain: number;
+  listed: number;
+  both: number;
+  onlyOnChain: string[]; // Whitelisted but not in the list
+  onlyListed: string[]; // In the list but not whitelisted
+}
+
+async function assertWhitelistPolicy(policyId: bigint): Promise<void> {
+  if (await getPolicyType(policyId) === "blacklist") {
+    throw new Error(`Policy ${policyId} is a blacklist - only whitelist policies can be exported or diffed`);
+  }
+}
+
+// Current members of a policy (and, with includeRemoved, addresses that were
+// removed), with their Ethos scores unless scores is false
+export async function exportWhitelist(
+  policyId: bigint,
+  options: { includeRemoved?: boolean; scores?: boolean } = {}
+): Promise<WhitelistExportRow[]> {
+  await assertWhitelistPolicy(policyId);
+  await catchUpWhitelistMirror(policyId);
+  const members = (await listWhitelistMembers(policyId))
+    .filter((member) => member.allowed || options.includeRemoved)
+    .sort((a, b) => a.address.localeCompare(b.address));
+
+  const scores = new Map<string, number | null>();
+  if (options.scores !== false) {
+    for (let i = 0; i < members.length; i += SCORE_BATCH_SIZE) {
+      const batch = await checkEligibility(members.slice(i, i + SCORE_BATCH_SIZE).map((member) => member.address));
+      for (const [address, { score }] of batch) {
+        scores.set(address, score);
+      }
+    }
+  }
+
+  return members.map((member) => ({
+    address: member.address,
+    score: scores.get(member.address) ?? null,
+    allowed: member.allowed,
+    addedAt: member.addedAt === null ? null : new Date(member.addedAt).toISOString(),
+    txHash: member.allowed ? member.addedTxHash : member.removedTxHash,
+  }));
+}
+
+export function whitelistExportToCsv(rows: WhitelistExportRow[]): string {
+  return toCsv(
+    ["address", "score", "allowed", "addedAt", "txHash"],
+    rows.map((row) => [row.address, row.score, row.allowed, row.addedAt, row.txHash])
+  );
+}
+
+// Compare a policy's current members with a list of addresses
+export async function diffWhitelist(policyId: bigint, addresses: string[]): Promise<WhitelistDiff> {
+  await assertWhitelistPolicy(policyId);
+  await catchUpWhitelistMirror(policyId);
+  const onChain = new Set(
+    (await listWhitelistMembers(policyId)).filter((member) => member.allowed).map((member) => member.address)
+  );
+  const listed = new Set(addresses.map((a) => a.toLowerCase()));
+
+  return {
+    policyId: policyId.toString(),
+    onChain: onChain.size,
+    listed: listed.size,
+    both: [...listed].filter((address) => onChain.has(address)).length,
+    onlyOnChain: [...onChain].filter((address) => !listed.has(address)).sort(),
+    onlyListed: [...listed].filter((address) => !onChain.has(address)).sort(),
+  };
+}
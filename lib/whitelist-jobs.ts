@@ -0,0 +1,299 @@
+// Resumable whitelist jobs
+//
+// A job is a fixed list of whitelist changes with an id. Its checkpoint is an
+// append-only JSONL file at data/jobs/<id>.jsonl: a header line holding the
+// changes, then one line each time an address changes state. Replaying the
+// file gives every address's current state, so rerunning a job picks up
+// exactly where it stopped:
+// - confirmed and skipped addresses are never touched again
+// - sent addresses (e.g. after a crash between send and confirm) are checked
+//   against their receipt first, and only resent once their nonce was used by
+//   another transaction, so the original can never land
+// - failed addresses are retried
+
+import { createTempoPublicClient, createTempoWalletClient, getAdminPrivateKey, getReceiptIfMined } from "./tempo.ts";
+import {
+  applyWhitelistChanges,
+  readAuthorizations,
+  recordWhitelistAudit,
+  type WhitelistChange,
+  type WhitelistSyncOptions,
+} from "./whitelist.ts";
+
+export type WhitelistJobState = "pending" | "sent" | "confirmed" | "skipped" | "failed";
+
+export interface WhitelistJobEntry extends WhitelistChange {
+  state: WhitelistJobState;
+  txHash?: string;
+  nonce?: number;
+  error?: string;
+  updatedAt?: string;
+}
+
+export interface WhitelistJob {
+  id: string;
+  policyId: bigint;
+  createdAt: string;
+  path: string;
+  entries: Map<string, WhitelistJobEntry>;
+}
+
+export type WhitelistJobSummary = Record<WhitelistJobState, number> & { id: string; total: number };
+
+type JobHeader = { type: "job"; id: string; policyId: string; createdAt: string; changes: WhitelistChange[] };
+type JobStateLine = { type: "state"; address: string; state: WhitelistJobState; txHash?: string; nonce?: number; error?: string; at: string };
+
+export class WhitelistJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WhitelistJobError";
+  }
+}
+
+function getJobsDir(): string {
+  return Deno.env.get("WHITELIST_JOBS_DIR") || "./data/jobs";
+}
+
+function getJobPath(id: string): string {
+  if (!/^[\w.-]+$/.test(id)) {
+    throw new WhitelistJobError(`Invalid job id "${id}" - use letters, digits, ".", "-" and "_"`);
+  }
+  return `${getJobsDir()}/${id}.jsonl`;
+}
+
+// One change per lowercased address (the last one wins), keeping its audit details
+function normalizeChanges(changes: WhitelistChange[]): WhitelistChange[] {
+  const byAddress = new Map<string, WhitelistChange>();
+  for (const change of changes) {
+    const address = change.address.toLowerCase();
+    byAddress.set(address, { ...change, address });
+  }
+  return [...byAddress.values()];
+}
+
+// Deterministic id for a policy and change list, so rerunning the same
+// command resumes the same job
+export async function getWhitelistJobId(policyId: bigint, changes: WhitelistChange[]): Promise<string> {
+  const lines = normalizeChanges(changes).map(({ address, allowed }) => `${address}:${allowed}`).sort();
+  const data = new TextEncoder().encode(`${policyId}\n${lines.join("\n")}`);
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  const hex = [...digest.slice(0, 6)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `job-${policyId}-${hex}`;
+}
+
+// Load a job by replaying its checkpoint file (null if it doesn't exist)
+export async function loadWhitelistJob(id: string): Promise<WhitelistJob | null> {
+  const path = getJobPath(id);
+  let content: string;
+  try {
+    content = await Deno.readTextFile(path);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) {
+      return null;
+    }
+    throw err;
+  }
+
+  // A crash mid-write can leave a partial last line; drop it so new lines
+  // aren't appended onto it
+  const lines = content.split("\n").filter((line) => line.trim());
+  const records: (JobHeader | JobStateLine)[] = [];
+  for (const [index, line] of lines.entries()) {
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      if (index < lines.length - 1) {
+        throw new WhitelistJobError(`Job ${id} has a corrupt checkpoint at line ${index + 1}`);
+      }
+      await Deno.writeTextFile(path, lines.slice(0, index).map((kept) => kept + "\n").join(""));
+    }
+  }
+
+  const header = records[0];
+  if (header?.type !== "job") {
+    throw new WhitelistJobError(`Job ${id} checkpoint is missing its header`);
+  }
+
+  const entries = new Map<string, WhitelistJobEntry>();
+  for (const change of header.changes) {
+    entries.set(change.address, { ...change, state: "pending" });
+  }
+  for (const record of records.slice(1)) {
+    if (record.type !== "state") {
+      continue;
+    }
+    const entry = entries.get(record.address);
+    if (entry) {
+      entry.state = record.state;
+      entry.txHash = record.txHash;
+      entry.nonce = record.nonce;
+      entry.error = record.error;
+      entry.updatedAt = record.at;
+    }
+  }
+
+  return { id, policyId: BigInt(header.policyId), createdAt: header.createdAt, path, entries };
+}
+
+// Every job with a checkpoint in the jobs directory, oldest first
+export async function listWhitelistJobs(): Promise<WhitelistJob[]> {
+  const jobs: WhitelistJob[] = [];
+  try {
+    for await (const file of Deno.readDir(getJobsDir())) {
+      if (file.isFile && file.name.endsWith(".jsonl")) {
+        const job = await loadWhitelistJob(file.name.slice(0, -".jsonl".length));
+        if (job) {
+          jobs.push(job);
+        }
+      }
+    }
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) {
+      throw err;
+    }
+  }
+  return jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Create a job, or resume it if a job with the same id already exists
+export async function createWhitelistJob(input: {
+  id?: string;
+  policyId: bigint;
+  changes: WhitelistChange[];
+}): Promise<WhitelistJob> {
+  const changes = normalizeChanges(input.changes);
+  const id = input.id ?? await getWhitelistJobId(input.policyId, changes);
+
+  const existing = await loadWhitelistJob(id);
+  if (existing) {
+    const sameChanges = existing.entries.size === changes.length &&
+      changes.every(({ address, allowed }) => existing.entries.get(address)?.allowed === allowed);
+    if (existing.policyId !== input.policyId || !sameChanges) {
+      throw new WhitelistJobError(`Job ${id} already exists with a different policy or address list`);
+    }
+    return existing;
+  }
+
+  const path = getJobPath(id);
+  const header: JobHeader = {
+    type: "job",
+    id,
+    policyId: input.policyId.toString(),
+    createdAt: new Date().toISOString(),
+    changes,
+  };
+  await Deno.mkdir(getJobsDir(), { recursive: true });
+  await Deno.writeTextFile(path, JSON.stringify(header) + "\n", { createNew: true });
+
+  return {
+    id,
+    policyId: input.policyId,
+    createdAt: header.createdAt,
+    path,
+    entries: new Map(changes.map((change) => [change.address, { ...change, state: "pending" }])),
+  };
+}
+
+// Update an address's state and append it to the checkpoint
+async function recordState(
+  job: WhitelistJob,
+  address: string,
+  update: Pick<WhitelistJobEntry, "state" | "txHash" | "nonce" | "error">
+): Promise<void> {
+  const entry = job.entries.get(address);
+  if (!entry) {
+    return;
+  }
+  const line: JobStateLine = { type: "state", address, ...update, at: new Date().toISOString() };
+  await Deno.writeTextFile(job.path, JSON.stringify(line) + "\n", { append: true });
+  Object.assign(entry, { txHash: undefined, nonce: undefined, error: undefined }, update, { updatedAt: line.at });
+}
+
+// Count addresses per state
+export function summarizeWhitelistJob(job: WhitelistJob): WhitelistJobSummary {
+  const summary: WhitelistJobSummary = {
+    id: job.id,
+    total: job.entries.size,
+    pending: 0,
+    sent: 0,
+    confirmed: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  for (const entry of job.entries.values()) {
+    summary[entry.state]++;
+  }
+  return summary;
+}
+
+// Settle addresses left in "sent" by an interrupted run. An address is only
+// sent again once its transaction provably can't land: there's no receipt and
+// its nonce was used by another transaction. Anything else (still pending, or
+// the RPC failed) leaves it sent for the next run to check.
+async function recoverSentEntries(job: WhitelistJob, options: WhitelistSyncOptions): Promise<void> {
+  const sent = [...job.entries.values()].filter((entry) => entry.state === "sent");
+  if (sent.length === 0) {
+    return;
+  }
+
+  const publicClient = createTempoPublicClient();
+  const adminAddress = createTempoWalletClient(getAdminPrivateKey()).account!.address;
+  const confirmedNonce = await publicClient.getTransactionCount({ address: adminAddress, blockTag: "latest" });
+
+  await Promise.all(sent.map(async (entry) => {
+    try {
+      const receipt = await getReceiptIfMined(publicClient, entry.txHash as `0x${string}`);
+      if (receipt?.status === "success") {
+        await recordWhitelistAudit(entry, entry.txHash!, job.policyId, options.audit);
+        await recordState(job, entry.address, { state: "confirmed", txHash: entry.txHash });
+      } else if (receipt) {
+        await recordState(job, entry.address, { state: "failed", txHash: entry.txHash, error: `Transaction reverted: ${entry.txHash}` });
+      } else if (entry.nonce !== undefined && confirmedNonce > entry.nonce) {
+        // Its nonce went to another transaction - resending is safe, the write is idempotent
+        await recordState(job, entry.address, { state: "pending" });
+      }
+    } catch (error) {
+      console.error(`Left ${entry.address} as sent, its receipt couldn't be read:`, error);
+    }
+  }));
+}
+
+// Run (or resume) a job until every address is confirmed, skipped or failed
+export async function runWhitelistJob(
+  job: WhitelistJob,
+  options: WhitelistSyncOptions = {}
+): Promise<WhitelistJobSummary> {
+  const jobOptions = { ...options, policyId: job.policyId };
+
+  await recoverSentEntries(job, options);
+
+  const remaining = [...job.entries.values()].filter((entry) => entry.state === "pending" || entry.state === "failed");
+  const { authorized } = await readAuthorizations(remaining.map((entry) => entry.address), jobOptions);
+
+  // Addresses already in the desired state don't need a transaction
+  const changes: WhitelistChange[] = [];
+  for (const entry of remaining) {
+    if (authorized.get(entry.address) === entry.allowed) {
+      await recordState(job, entry.address, { state: "skipped" });
+    } else {
+      const { address, allowed, reason, score, threshold } = entry;
+      changes.push({ address, allowed, reason, score, threshold });
+    }
+  }
+
+  await applyWhitelistChanges(changes, {
+    ...jobOptions,
+    onTransaction: async (event) => {
+      if (event.type === "sent") {
+        await recordState(job, event.change.address, { state: "sent", txHash: event.txHash, nonce: event.nonce });
+      } else if (event.type === "confirmed") {
+        await recordState(job, event.change.address, { state: "confirmed", txHash: event.txHash });
+      } else {
+        await recordState(job, event.change.address, { state: "failed", error: event.error });
+      }
+      await options.onTransaction?.(event);
+    },
+  });
+
+  return summarizeWhitelistJob(job);
+}
@@ -0,0 +1,213 @@
+// Whitelist policy migrations
+//
+// Moving the token to a new policy locks out anyone the new policy is
+// missing, so a migration only cuts over once it has checked:
+// - verify: every expected member is authorized on the new policy (isAuthorized)
+// - diff: who is on the old policy but not the new one, from WhitelistUpdated
+//   events - those users lose transfer access at cutover
+// The new policy can be a blacklist, in which case the old members it
+// restricts are the ones who lose access. Moving off a blacklist can't be
+// diffed (its members aren't listed anywhere), so it's done with a rollback.
+// Each migration is recorded in KV, so the latest cutover can be rolled back
+// to the policy it replaced.
+
+import { getKv } from "./kv.ts";
+import { getPolicyType, readAuthorizations, type WhitelistSyncOptions } from "./whitelist.ts";
+import { catchUpWhitelistMirror, listWhitelistMembers } from "./whitelist-mirror.ts";
+import { getTokenPolicyId, setTokenPolicyId } from "./whitelist-policy.ts";
+
+export interface PolicyVerification {
+  policyId: string;
+  expected: number;
+  authorized: number;
+  missing: string[]; // Expected members that aren't authorized
+  errors: string[]; // Reads that failed, so those addresses are unverified
+}
+
+export interface PolicyDiff {
+  fromPolicyId: string;
+  toPolicyId: string;
+  both: number;
+  onlyFrom: string[]; // Lose access at cutover
+  onlyTo: string[]; // Gain access at cutover
+}
+
+export interface PolicyMigration {
+  id: string;
+  fromPolicyId: string;
+  toPolicyId: string;
+  status: "verified" | "blocked" | "cut_over" | "rolled_back";
+  verification: PolicyVerification;
+  diff: PolicyDiff;
+  blocked: string | null; // Why cutover was refused
+  createdAt: number;
+  cutOverAt: number | null;
+  cutOverTxHash: string | null;
+  rolledBackAt: number | null;
+  rollbackTxHash: string | null;
+  operator: string;
+}
+
+export class PolicyMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PolicyMigrationError";
+  }
+}
+
+const migrationKey = (migration: PolicyMigration) => ["policy_migrations", migration.createdAt, migration.id];
+
+async function saveMigration(migration: PolicyMigration): Promise<void> {
+  const kv = await getKv();
+  await kv.set(migrationKey(migration), migration);
+}
+
+// Most recent migrations first
+export async function listPolicyMigrations(limit = 20): Promise<PolicyMigration[]> {
+  const kv = await getKv();
+  const migrations: PolicyMigration[] = [];
+  for await (const entry of kv.list<PolicyMigration>({ prefix: ["policy_migrations"] }, { reverse: true, limit })) {
+    migrations.push(entry.value);
+  }
+  return migrations;
+}
+
+// Current members of a whitelist policy, rebuilt from its WhitelistUpdated events
+export async function getPolicyMembers(policyId: bigint): Promise<string[]> {
+  if (await getPolicyType(policyId) === "blacklist") {
+    throw new PolicyMigrationError(`Policy ${policyId} is a blacklist - its members can't be listed`);
+  }
+  await catchUpWhitelistMirror(policyId);
+  return (await listWhitelistMembers(policyId)).filter((member) => member.allowed).map((member) => member.address);
+}
+
+// Check every expected member with isAuthorized
+export async function verifyPolicyMembers(
+  policyId: bigint,
+  expected: string[],
+  options: WhitelistSyncOptions = {}
+): Promise<PolicyVerification> {
+  const addresses = [...new Set(expected.map((a) => a.toLowerCase()))];
+  const { authorized, errors } = await readAuthorizations(addresses, { ...options, policyId });
+  return {
+    policyId: policyId.toString(),
+    expected: addresses.length,
+    authorized: addresses.filter((address) => authorized.get(address) === true).length,
+    missing: addresses.filter((address) => authorized.get(address) === false),
+    errors,
+  };
+}
+
+// Compare the members of two policies. If the new policy is a blacklist,
+// everyone it doesn't restrict gains access, so onlyTo is left empty.
+export async function diffPolicies(
+  fromPolicyId: bigint,
+  toPolicyId: bigint,
+  options: WhitelistSyncOptions = {}
+): Promise<PolicyDiff> {
+  if (await getPolicyType(toPolicyId) === "blacklist") {
+    const from = await getPolicyMembers(fromPolicyId);
+    const { authorized, errors } = await readAuthorizations(from, { ...options, policyId: toPolicyId });
+    if (errors.length > 0) {
+      throw new PolicyMigrationError(`${errors.length} members could not be checked on policy ${toPolicyId}: ${errors[0]}`);
+    }
+    const onlyFrom = from.filter((address) => authorized.get(address) === false).sort();
+    return {
+      fromPolicyId: fromPolicyId.toString(),
+      toPolicyId: toPolicyId.toString(),
+      both: from.length - onlyFrom.length,
+      onlyFrom,
+      onlyTo: [],
+    };
+  }
+
+  const [from, to] = await Promise.all([getPolicyMembers(fromPolicyId), getPolicyMembers(toPolicyId)]);
+  const fromSet = new Set(from);
+  const toSet = new Set(to);
+  return {
+    fromPolicyId: fromPolicyId.toString(),
+    toPolicyId: toPolicyId.toString(),
+    both: from.filter((address) => toSet.has(address)).length,
+    onlyFrom: from.filter((address) => !toSet.has(address)).sort(),
+    onlyTo: to.filter((address) => !fromSet.has(address)).sort(),
+  };
+}
+
+// Verify and diff a new policy against the one the token uses now. The
+// migration is blocked if an expected member is missing or unverified, or
+// (unless allowRemovals) if anyone on the old policy isn't on the new one.
+export async function preparePolicyMigration(
+  toPolicyId: bigint,
+  expected: string[],
+  options: WhitelistSyncOptions & { allowRemovals?: boolean; operator: string }
+): Promise<PolicyMigration> {
+  const fromPolicyId = await getTokenPolicyId();
+  if (fromPolicyId === toPolicyId) {
+    throw new PolicyMigrationError(`Token already uses policy ${toPolicyId}`);
+  }
+
+  const verification = await verifyPolicyMembers(toPolicyId, expected, options);
+  const diff = await diffPolicies(fromPolicyId, toPolicyId, options);
+
+  let blocked: string | null = null;
+  if (verification.missing.length > 0) {
+    blocked = `${verification.missing.length} expected members are not authorized on policy ${toPolicyId}`;
+  } else if (verification.errors.length > 0) {
+    blocked = `${verification.errors.length} members could not be verified on policy ${toPolicyId}`;
+  } else if (diff.onlyFrom.length > 0 && !options.allowRemovals) {
+    blocked = `${diff.onlyFrom.length} members of policy ${fromPolicyId} are not on policy ${toPolicyId} and would lose transfer access`;
+  }
+
+  const migration: PolicyMigration = {
+    id: crypto.randomUUID(),
+    fromPolicyId: fromPolicyId.toString(),
+    toPolicyId: toPolicyId.toString(),
+    status: blocked ? "blocked" : "verified",
+    verification,
+    diff,
+    blocked,
+    createdAt: Date.now(),
+    cutOverAt: null,
+    cutOverTxHash: null,
+    rolledBackAt: null,
+    rollbackTxHash: null,
+    operator: options.operator,
+  };
+  await saveMigration(migration);
+  return migration;
+}
+
+// Point the token at a verified migration's new policy
+export async function cutOverPolicyMigration(migration: PolicyMigration): Promise<PolicyMigration> {
+  if (migration.status !== "verified") {
+    throw new PolicyMigrationError(`Migration ${migration.id} is ${migration.status}, not verified`);
+  }
+  const current = await getTokenPolicyId();
+  if (current.toString() !== migration.fromPolicyId) {
+    throw new PolicyMigrationError(`Token moved to policy ${current} since the migration was verified - prepare it again`);
+  }
+
+  const txHash = await setTokenPolicyId(BigInt(migration.toPolicyId));
+  const cutOver: PolicyMigration = { ...migration, status: "cut_over", cutOverAt: Date.now(), cutOverTxHash: txHash };
+  await saveMigration(cutOver);
+  return cutOver;
+}
+
+// Undo the latest cutover, returning the token to the policy it replaced
+export async function rollbackPolicyMigration(): Promise<PolicyMigration> {
+  const migration = (await listPolicyMigrations(100)).find((m) => m.status === "cut_over");
+  if (!migration) {
+    throw new PolicyMigrationError("No cutover to roll back");
+  }
+  const current = await getTokenPolicyId();
+  if (current.toString() !== migration.toPolicyId) {
+    throw new PolicyMigrationError(
+      `Token uses policy ${current}, not ${migration.toPolicyId} from the latest cutover - not rolling back`
+    );
+  }
+
+  const txHash = await setTokenPolicyId(BigInt(migration.fromPolicyId));
+  const rolledBack: PolicyMigration = { ...migration, status: "rolled_back", rolledBackAt: Date.now(), rollbackTxHash: txHash };
+  await saveMigration(rolledBack);
+  return rolledBack;
+}
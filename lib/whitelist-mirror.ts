@@ -0,0 +1,194 @@
+// Whitelist mirror - TIP-403 policy membership indexed from WhitelistUpdated
+// and BlacklistUpdated events
+//
+// Every modifyPolicyWhitelist call emits WhitelistUpdated(policyId, updater,
+// account, allowed), and every modifyPolicyBlacklist call emits
+// BlacklistUpdated(policyId, updater, account, restricted). Replaying those
+// events gives the policy's current members (on a blacklist, the addresses it
+// restricts, recorded as allowed: false), plus when and by whom each was
+// added, without an isAuthorized RPC call per address. Like the mint index, the mirror is backfilled and then
+// tailed in block ranges by the shared log indexer (see log-indexer.ts), with
+// the last indexed block kept in KV.
+
+import { getAbiItem } from "viem";
+import { CONTRACTS, TIP403_REGISTRY_ABI } from "./contracts.ts";
+import { createTempoPublicClient } from "./tempo.ts";
+import { commitInBatches, getKv } from "./kv.ts";
+import { getBlockTimestamps, type LogIndexProgress, syncLogIndex } from "./log-indexer.ts";
+
+const WHITELIST_UPDATED_EVENT = getAbiItem({ abi: TIP403_REGISTRY_ABI, name: "WhitelistUpdated" });
+const BLACKLIST_UPDATED_EVENT = getAbiItem({ abi: TIP403_REGISTRY_ABI, name: "BlacklistUpdated" });
+
+// The mirror is trusted for reads only if a sync caught up this recently
+const MIRROR_MAX_AGE_MS = 5 * 60 * 1000;
+
+export interface WhitelistMember {
+  address: string;
+  allowed: boolean;
+  addedAt: number | null; // Block timestamp (ms) of the latest add
+  addedBy: string | null; // Updater that sent the latest add
+  addedTxHash: string | null;
+  removedAt: number | null;
+  removedBy: string | null;
+  removedTxHash: string | null;
+  blockNumber: number; // Position of the latest event applied
+  logIndex: number;
+}
+
+export interface WhitelistMirrorState extends LogIndexProgress {
+  policyId: string;
+}
+
+interface WhitelistEvent {
+  account: string;
+  updater: string;
+  allowed: boolean;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+}
+
+const cursorKey = (policyId: bigint) => ["whitelist_mirror", policyId.toString()];
+const memberKey = (policyId: bigint, address: string) => ["whitelist_members", policyId.toString(), address.toLowerCase()];
+
+// First block to index - the policy's creation block, if known
+function getStartBlock(): bigint {
+  return BigInt(Deno.env.get("ETHOS_POLICY_START_BLOCK") || "0");
+}
+
+// Fold an event into a member record. Events at or before the record's
+// position were already applied, so replaying a range is harmless.
+function applyEvent(member: WhitelistMember | null, event: WhitelistEvent): WhitelistMember | null {
+  if (member && (event.blockNumber < member.blockNumber ||
+    (event.blockNumber === member.blockNumber && event.logIndex <= member.logIndex))) {
+    return null;
+  }
+
+  const base: WhitelistMember = member ?? {
+    address: event.account,
+    allowed: false,
+    addedAt: null,
+    addedBy: null,
+    addedTxHash: null,
+    removedAt: null,
+    removedBy: null,
+    removedTxHash: null,
+    blockNumber: 0,
+    logIndex: 0,
+  };
+  const position = { blockNumber: event.blockNumber, logIndex: event.logIndex };
+
+  if (event.allowed) {
+    return { ...base, ...position, allowed: true, addedAt: event.timestamp, addedBy: event.updater, addedTxHash: event.txHash };
+  }
+  return { ...base, ...position, allowed: false, removedAt: event.timestamp, removedBy: event.updater, removedTxHash: event.txHash };
+}
+
+// Write a range of events into member records
+async function applyEvents(kv: Deno.Kv, policyId: bigint, events: WhitelistEvent[]): Promise<void> {
+  const byAccount = new Map<string, WhitelistEvent[]>();
+  for (const event of events) {
+    byAccount.set(event.account, [...(byAccount.get(event.account) ?? []), event]);
+  }
+
+  await commitInBatches([...byAccount.keys()], async (op, account) => {
+    let member = (await kv.get<WhitelistMember>(memberKey(policyId, account))).value;
+    let changed = false;
+    for (const event of byAccount.get(account)!) {
+      const next = applyEvent(member, event);
+      if (next) {
+        member = next;
+        changed = true;
+      }
+    }
+    if (changed && member) {
+      op.set(memberKey(policyId, account), member);
+    }
+  });
+}
+
+// Mirror whitelist events up to the chain head (or as far as one sync is allowed to go).
+// Returns null if no policy is configured.
+export async function syncWhitelistMirror(policyId = CONTRACTS.POLICY_ID): Promise<WhitelistMirrorState | null> {
+  if (policyId === 0n) {
+    return null;
+  }
+
+  const kv = await getKv();
+  const publicClient = createTempoPublicClient();
+
+  return await syncLogIndex({
+    cursorKey: cursorKey(policyId),
+    startBlock: getStartBlock(),
+    // A policy only emits the events of its own type, so both are fetched
+    // without looking the type up first
+    getLogs: async (fromBlock, toBlock) => {
+      const range = { address: CONTRACTS.TIP403_REGISTRY, args: { policyId }, fromBlock, toBlock };
+      const [added, restricted] = await Promise.all([
+        publicClient.getLogs({ ...range, event: WHITELIST_UPDATED_EVENT }),
+        publicClient.getLogs({ ...range, event: BLACKLIST_UPDATED_EVENT }),
+      ]);
+      return [
+        ...added.map((log) => ({ log, allowed: log.args.allowed! })),
+        ...restricted.map((log) => ({ log, allowed: !log.args.restricted! })),
+      ];
+    },
+    storeLogs: async (logs) => {
+      const timestamps = await getBlockTimestamps(logs.map(({ log }) => log.blockNumber));
+      const events: WhitelistEvent[] = logs
+        .map(({ log, allowed }) => ({
+          account: log.args.account!.toLowerCase(),
+          updater: log.args.updater!.toLowerCase(),
+          allowed,
+          txHash: log.transactionHash,
+          blockNumber: Number(log.blockNumber),
+          logIndex: log.logIndex,
+          timestamp: timestamps.get(log.blockNumber)!,
+        }))
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+      await applyEvents(kv, policyId, events);
+    },
+    toState: (progress) => ({ policyId: policyId.toString(), ...progress }),
+  });
+}
+
+// Keep syncing until the mirror reaches the chain head - for one-off tools
+// (export, migrations) that need complete membership of any policy
+export async function catchUpWhitelistMirror(
+  policyId = CONTRACTS.POLICY_ID,
+  onProgress?: (state: WhitelistMirrorState) => void
+): Promise<WhitelistMirrorState | null> {
+  let state = await syncWhitelistMirror(policyId);
+  while (state && state.indexedToBlock < state.latestBlock) {
+    onProgress?.(state);
+    state = await syncWhitelistMirror(policyId);
+  }
+  return state;
+}
+
+export async function getWhitelistMirrorState(policyId = CONTRACTS.POLICY_ID): Promise<WhitelistMirrorState | null> {
+  const kv = await getKv();
+  return (await kv.get<WhitelistMirrorState>(cursorKey(policyId))).value;
+}
+
+// Whether the mirror has caught up with the chain recently enough to answer reads
+export function isWhitelistMirrorCurrent(state: WhitelistMirrorState | null): state is WhitelistMirrorState {
+  return state !== null && state.indexedToBlock >= state.latestBlock && Date.now() - state.updatedAt < MIRROR_MAX_AGE_MS;
+}
+
+// Mirrored record for an address (null if it never appeared in an event)
+export async function getWhitelistMember(address: string, policyId = CONTRACTS.POLICY_ID): Promise<WhitelistMember | null> {
+  const kv = await getKv();
+  return (await kv.get<WhitelistMember>(memberKey(policyId, address))).value;
+}
+
+// Every mirrored record, current members and removed addresses alike
+export async function listWhitelistMembers(policyId = CONTRACTS.POLICY_ID): Promise<WhitelistMember[]> {
+  const kv = await getKv();
+  const members: WhitelistMember[] = [];
+  for await (const entry of kv.list<WhitelistMember>({ prefix: ["whitelist_members", policyId.toString()] })) {
+    members.push(entry.value);
+  }
+  return members;
+}
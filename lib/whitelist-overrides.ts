@@ -0,0 +1,112 @@
+// Whitelist overrides
+//
+// Some addresses have to stay on (or off) the whitelist whatever their Ethos
+// score says: the treasury, the fee AMM and partner contracts are pinned as
+// "allow", known scammers as "deny". syncWhitelist always includes
+// overridden addresses and applies the override instead of the score rule,
+// with no grace period. An override can expire, after which the address is
+// synced by score again.
+
+import { getKv } from "./kv.ts";
+
+export type WhitelistOverrideMode = "allow" | "deny";
+
+export interface WhitelistOverride {
+  address: string;
+  mode: WhitelistOverrideMode;
+  note: string;
+  expiresAt: string | null; // null = never
+  createdAt: string;
+  createdBy: string;
+}
+
+export class WhitelistOverrideError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WhitelistOverrideError";
+  }
+}
+
+const overrideKey = (address: string) => ["whitelist_overrides", address.toLowerCase()];
+
+function isActive(override: WhitelistOverride, now = Date.now()): boolean {
+  return override.expiresAt === null || Date.parse(override.expiresAt) > now;
+}
+
+// Pin an address, replacing any existing override for it
+export async function setWhitelistOverride(input: {
+  address: string;
+  mode: WhitelistOverrideMode;
+  note: string;
+  expiresAt?: string | null;
+  createdBy: string;
+}): Promise<WhitelistOverride> {
+  if (!/^0x[a-fA-F0-9]{40}$/.test(input.address)) {
+    throw new WhitelistOverrideError(`Invalid address: ${input.address}`);
+  }
+  if (input.mode !== "allow" && input.mode !== "deny") {
+    throw new WhitelistOverrideError(`mode must be "allow" or "deny"`);
+  }
+  if (!input.note?.trim()) {
+    throw new WhitelistOverrideError("A note explaining the override is required");
+  }
+
+  let expiresAt: string | null = null;
+  if (input.expiresAt) {
+    const time = Date.parse(input.expiresAt);
+    if (Number.isNaN(time)) {
+      throw new WhitelistOverrideError(`Invalid expiry: ${input.expiresAt}`);
+    }
+    if (time <= Date.now()) {
+      throw new WhitelistOverrideError("Expiry must be in the future");
+    }
+    expiresAt = new Date(time).toISOString();
+  }
+
+  const override: WhitelistOverride = {
+    address: input.address.toLowerCase(),
+    mode: input.mode,
+    note: input.note.trim().slice(0, 1000),
+    expiresAt,
+    createdAt: new Date().toISOString(),
+    createdBy: input.createdBy,
+  };
+
+  // Expired overrides are deleted by KV; isActive covers the gap until then
+  const kv = await getKv();
+  await kv.set(
+    overrideKey(override.address),
+    override,
+    expiresAt ? { expireIn: Date.parse(expiresAt) - Date.now() } : undefined
+  );
+  return override;
+}
+
+// Drop an override. Returns false if there wasn't one.
+export async function removeWhitelistOverride(address: string): Promise<boolean> {
+  const kv = await getKv();
+  const existing = await kv.get<WhitelistOverride>(overrideKey(address));
+  if (!existing.value) {
+    return false;
+  }
+  await kv.delete(overrideKey(address));
+  return true;
+}
+
+// Overrides that haven't expired
+export async function listWhitelistOverrides(): Promise<WhitelistOverride[]> {
+  const kv = await getKv();
+  const now = Date.now();
+  const overrides: WhitelistOverride[] = [];
+  for await (const entry of kv.list<WhitelistOverride>({ prefix: ["whitelist_overrides"] })) {
+    if (isActive(entry.value, now)) {
+      overrides.push(entry.value);
+    }
+  }
+  return overrides;
+}
+
+// Active overrides by lowercased address
+export async function getActiveOverrides(): Promise<Map<string, WhitelistOverride>> {
+  return new Map((await listWhitelistOverrides()).map((override) => [override.address, override]));
+}
@@ -0,0 +1,160 @@
+// TIP-403 policy management - creating whitelist and blacklist policies and
+// pointing the token at one
+//
+// A new policy is created with createPolicyWithAccounts for the first
+// CREATE_BATCH_SIZE addresses (one transaction), and the rest are added by a
+// resumable job, so a large list doesn't need one huge transaction.
+
+import { parseEventLogs } from "viem";
+import { CONTRACTS, POLICY_TYPE, TIP20_ABI, TIP403_REGISTRY_ABI } from "./contracts.ts";
+import { createTempoPublicClient, createTempoWalletClient, getAdminPrivateKey, tempoTestnet } from "./tempo.ts";
+import { withAdminNonces } from "./kv.ts";
+import { type PolicyType, recordWhitelistAudit, type WhitelistSyncOptions } from "./whitelist.ts";
+import { createWhitelistJob, runWhitelistJob, type WhitelistJob, type WhitelistJobSummary } from "./whitelist-jobs.ts";
+
+// Accounts passed to createPolicyWithAccounts - stays well under the block gas limit
+export const CREATE_BATCH_SIZE = 450;
+
+export interface PolicyInfo {
+  policyId: bigint;
+  type: PolicyType;
+  admin: string;
+}
+
+export interface CreatedWhitelistPolicy {
+  policyId: bigint;
+  txHash: string;
+  initial: number; // Addresses listed by the create transaction
+  job: WhitelistJob | null; // Lists the remaining addresses
+  summary: WhitelistJobSummary | null;
+}
+
+// Policy the token currently enforces on transfers
+export async function getTokenPolicyId(): Promise<bigint> {
+  const publicClient = createTempoPublicClient();
+  return await publicClient.readContract({
+    address: CONTRACTS.ETHOS_USD_TOKEN,
+    abi: TIP20_ABI,
+    functionName: "transferPolicyId",
+  });
+}
+
+export async function getPolicyInfo(policyId: bigint): Promise<PolicyInfo> {
+  const publicClient = createTempoPublicClient();
+  const [policyType, admin] = await publicClient.readContract({
+    address: CONTRACTS.TIP403_REGISTRY,
+    abi: TIP403_REGISTRY_ABI,
+    functionName: "policyData",
+    args: [policyId],
+  });
+  return {
+    policyId,
+    type: policyType === POLICY_TYPE.BLACKLIST ? "blacklist" : "whitelist",
+    admin: admin.toLowerCase(),
+  };
+}
+
+type CreatePolicyOptions = WhitelistSyncOptions & { onCreated?: (policyId: bigint, txHash: string) => void };
+
+// Create a whitelist policy holding the given addresses and the admin.
+// onCreated is called as soon as the policy id is known, before the
+// remaining addresses are added.
+export async function createWhitelistPolicy(
+  addresses: string[],
+  options: CreatePolicyOptions = {}
+): Promise<CreatedWhitelistPolicy> {
+  return await createPolicy("whitelist", addresses, options);
+}
+
+// Create a blacklist policy restricting the given addresses. Everyone else,
+// including addresses that don't exist yet, can transfer.
+export async function createBlacklistPolicy(
+  addresses: string[],
+  options: CreatePolicyOptions = {}
+): Promise<CreatedWhitelistPolicy> {
+  return await createPolicy("blacklist", addresses, options);
+}
+
+async function createPolicy(
+  policyType: PolicyType,
+  addresses: string[],
+  options: CreatePolicyOptions
+): Promise<CreatedWhitelistPolicy> {
+  const publicClient = createTempoPublicClient();
+  const walletClient = createTempoWalletClient(getAdminPrivateKey());
+  const account = walletClient.account!;
+  const adminAddress = account.address.toLowerCase();
+
+  // The admin always stays authorized on its own policy, so it can keep managing the token
+  const listed = [...new Set(addresses.map((a) => a.toLowerCase()))];
+  const members = policyType === "whitelist"
+    ? [...new Set([adminAddress, ...listed])]
+    : listed.filter((address) => address !== adminAddress);
+  const initial = members.slice(0, CREATE_BATCH_SIZE);
+  const remaining = members.slice(CREATE_BATCH_SIZE);
+  const allowed = policyType === "whitelist";
+
+  const txHash = await withAdminNonces(() =>
+    walletClient.writeContract({
+      account,
+      chain: tempoTestnet,
+      address: CONTRACTS.TIP403_REGISTRY,
+      abi: TIP403_REGISTRY_ABI,
+      functionName: "createPolicyWithAccounts",
+      args: [
+        account.address,
+        policyType === "whitelist" ? POLICY_TYPE.WHITELIST : POLICY_TYPE.BLACKLIST,
+        initial as `0x${string}`[],
+      ],
+    })
+  );
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+  if (receipt.status !== "success") {
+    throw new Error(`Policy creation reverted: ${txHash}`);
+  }
+
+  const [created] = parseEventLogs({ abi: TIP403_REGISTRY_ABI, eventName: "PolicyCreated", logs: receipt.logs });
+  if (!created) {
+    throw new Error(`No PolicyCreated event in ${txHash}`);
+  }
+  const policyId = created.args.policyId;
+  options.onCreated?.(policyId, txHash);
+
+  for (const address of initial) {
+    await recordWhitelistAudit({ address, allowed, reason: "csv_upload" }, txHash, policyId, options.audit);
+  }
+
+  if (remaining.length === 0) {
+    return { policyId, txHash, initial: initial.length, job: null, summary: null };
+  }
+
+  const job = await createWhitelistJob({
+    policyId,
+    changes: remaining.map((address) => ({ address, allowed, reason: "csv_upload" })),
+  });
+  const summary = await runWhitelistJob(job, { ...options, policyType });
+  return { policyId, txHash, initial: initial.length, job, summary };
+}
+
+// Point the token at a policy. Returns the transaction hash.
+export async function setTokenPolicyId(policyId: bigint): Promise<string> {
+  const publicClient = createTempoPublicClient();
+  const walletClient = createTempoWalletClient(getAdminPrivateKey());
+  const account = walletClient.account!;
+
+  const hash = await withAdminNonces(() =>
+    walletClient.writeContract({
+      account,
+      chain: tempoTestnet,
+      address: CONTRACTS.ETHOS_USD_TOKEN,
+      abi: TIP20_ABI,
+      functionName: "changeTransferPolicyId",
+      args: [policyId],
+    })
+  );
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new Error(`changeTransferPolicyId reverted: ${hash}`);
+  }
+  return hash;
+}
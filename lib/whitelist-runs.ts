@@ -0,0 +1,188 @@
+// Whitelist sync runs
+//
+// Server-side syncs (the Deno.cron schedule in main.ts and POST
+// /api/sync-whitelist) go through runWhitelistSync, which holds the
+// "whitelist-sync" lease lock so only one sync runs at a time, and stores each
+// run's history in KV for /api/sync-whitelist/runs.
+//
+// Scheduled runs are incremental: each one covers the next
+// WHITELIST_SYNC_BATCH_SIZE candidate addresses (the discovered Ethos
+// candidates plus current members) from a stored cursor, so a long list is
+// cycled through over several short runs. The tier policies (see
+// whitelist-tiers.ts) are synced with the same slice, and their errors are
+// recorded on the run.
+
+import { CONTRACTS } from "./contracts.ts";
+import { acquireLock, getKv, releaseLock, renewLock } from "./kv.ts";
+import { loadCandidateAddresses, syncWhitelist, type WhitelistSyncResult } from "./whitelist.ts";
+import type { WhitelistAuditContext } from "./whitelist-audit.ts";
+import { syncWhitelistTiers } from "./whitelist-tiers.ts";
+
+export type WhitelistSyncTrigger = "schedule" | "api";
+
+export interface WhitelistSyncRun {
+  id: string;
+  trigger: WhitelistSyncTrigger;
+  operator: string;
+  status: "running" | "completed" | "blocked" | "failed";
+  startedAt: number;
+  endedAt: number | null;
+  range: { start: number; end: number; total: number } | null; // Slice of the candidate list (scheduled runs)
+  checked: number;
+  added: string[];
+  removed: string[];
+  held: number;
+  unknown: number;
+  errors: string[];
+}
+
+const SYNC_LOCK = "whitelist-sync";
+
+// Renewed before each write batch, so a long sync keeps it; the lease frees
+// itself if the server dies mid-run
+const SYNC_LOCK_TTL_MS = 5 * 60 * 1000;
+
+// Run history is kept for 30 days
+const RUN_HISTORY_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+function getBatchSize(): number {
+  return Number(Deno.env.get("WHITELIST_SYNC_BATCH_SIZE") || "1000");
+}
+
+function runKey(run: WhitelistSyncRun): Deno.KvKey {
+  return ["whitelist_runs", run.startedAt, run.id];
+}
+
+async function saveRun(run: WhitelistSyncRun): Promise<void> {
+  const kv = await getKv();
+  await kv.set(runKey(run), run, { expireIn: RUN_HISTORY_TTL_MS });
+}
+
+// Most recent runs first
+export async function listWhitelistSyncRuns(limit = 50): Promise<WhitelistSyncRun[]> {
+  const kv = await getKv();
+  const runs: WhitelistSyncRun[] = [];
+  for await (const entry of kv.list<WhitelistSyncRun>({ prefix: ["whitelist_runs"] }, { reverse: true, limit })) {
+    runs.push(entry.value);
+  }
+  return runs;
+}
+
+// Runs still marked running when we take the lock were cut off by a crash or deploy
+async function markInterruptedRuns(): Promise<void> {
+  for (const run of await listWhitelistSyncRuns(20)) {
+    if (run.status === "running") {
+      await saveRun({ ...run, status: "failed", endedAt: Date.now(), errors: [...run.errors, "Interrupted"] });
+    }
+  }
+}
+
+// Run a sync under the lock and record it. The sync gets the audit context to
+// tag its writes with, and a keepAlive that renews the lock (pass both on as
+// sync options, so the writes stop if the lock is lost). Returns null if
+// another sync holds the lock.
+export async function runWhitelistSync(
+  trigger: WhitelistSyncTrigger,
+  operator: string,
+  sync: (options: { audit: WhitelistAuditContext; keepAlive: () => Promise<boolean> }) => Promise<WhitelistSyncResult>,
+  range: WhitelistSyncRun["range"] = null
+): Promise<{ run: WhitelistSyncRun; result: WhitelistSyncResult } | null> {
+  const lock = await acquireLock(SYNC_LOCK, SYNC_LOCK_TTL_MS);
+  if (!lock) {
+    return null;
+  }
+
+  try {
+    await markInterruptedRuns();
+
+    const run: WhitelistSyncRun = {
+      id: crypto.randomUUID(),
+      trigger,
+      operator,
+      status: "running",
+      startedAt: Date.now(),
+      endedAt: null,
+      range,
+      checked: 0,
+      added: [],
+      removed: [],
+      held: 0,
+      unknown: 0,
+      errors: [],
+    };
+    await saveRun(run);
+
+    let result: WhitelistSyncResult;
+    try {
+      result = await sync({
+        audit: { trigger: trigger === "schedule" ? "cron" : "api", operator, runId: run.id },
+        keepAlive: () => renewLock(SYNC_LOCK, lock, SYNC_LOCK_TTL_MS),
+      });
+    } catch (error) {
+      await saveRun({ ...run, status: "failed", endedAt: Date.now(), errors: [String(error)] });
+      throw error;
+    }
+
+    let status: WhitelistSyncRun["status"] = "completed";
+    if (result.plan?.blocked && result.added.length + result.removed.length === 0) {
+      status = "blocked";
+    } else if (!result.plan && result.errors.length > 0) {
+      status = "failed";
+    }
+
+    const finished: WhitelistSyncRun = {
+      ...run,
+      status,
+      endedAt: Date.now(),
+      checked: result.checked,
+      added: result.added,
+      removed: result.removed,
+      held: result.plan?.held.length ?? 0,
+      unknown: result.unknown.length,
+      errors: result.errors,
+    };
+    await saveRun(finished);
+    return { run: finished, result };
+  } finally {
+    await releaseLock(SYNC_LOCK, lock);
+  }
+}
+
+// Sync the next slice of candidate addresses. Returns null if there's nothing to
+// do or another sync is running.
+export async function runScheduledWhitelistSync(): Promise<WhitelistSyncRun | null> {
+  if (CONTRACTS.POLICY_ID === 0n) {
+    return null;
+  }
+
+  const addresses = await loadCandidateAddresses();
+  if (addresses.length === 0) {
+    return null;
+  }
+
+  const kv = await getKv();
+  const cursorKey = ["whitelist_sync_cursor"];
+  const cursor = await kv.get<number>(cursorKey);
+  const start = (cursor.value ?? 0) % addresses.length;
+  const end = Math.min(start + getBatchSize(), addresses.length);
+
+  const slice = addresses.slice(start, end);
+  const outcome = await runWhitelistSync(
+    "schedule",
+    "scheduler",
+    async (options) => {
+      const result = await syncWhitelist(slice, options);
+      for (const tier of await syncWhitelistTiers(slice, options)) {
+        result.errors.push(...tier.result.errors.map((error) => `${tier.tier} tier: ${error}`));
+      }
+      return result;
+    },
+    { start, end, total: addresses.length }
+  );
+
+  // A blocked or failed slice is retried next time instead of skipped
+  if (outcome?.run.status === "completed") {
+    await kv.set(cursorKey, end % addresses.length);
+  }
+  return outcome?.run ?? null;
+}
@@ -0,0 +1,133 @@
+// Whitelist tiers - a TIP-403 whitelist policy per Ethos score level
+//
+// The token enforces one policy, but each of the neutral, reputable and
+// exemplary levels (getScoreLevel) can have a policy of its own holding the
+// addresses at exactly that level. Tier policies don't gate transfers on
+// chain; they record each address's tier for the app layer, which applies a
+// daily transfer limit per tier (see transfer-limits.ts). They're synced by
+// the same engine as the main policy, with the level's score range as the rule.
+//
+// Tiers are configured with ETHOS_TIER_POLICY_IDS, e.g.
+// "neutral:146,reputable:147,exemplary:148" (unconfigured tiers are skipped),
+// and daily limits in whole ethosUSD with TIER_DAILY_LIMIT_NEUTRAL,
+// TIER_DAILY_LIMIT_REPUTABLE and TIER_DAILY_LIMIT_EXEMPLARY (unlimited when unset).
+
+import { MIN_ETHOS_SCORE, SCORE_LEVEL_MIN_SCORES } from "./ethos.ts";
+import {
+  readAuthorizations,
+  syncWhitelist,
+  type WhitelistSyncOptions,
+  type WhitelistSyncResult,
+  type WhitelistTierRange,
+} from "./whitelist.ts";
+import { getWhitelistMember, getWhitelistMirrorState, isWhitelistMirrorCurrent } from "./whitelist-mirror.ts";
+
+export const WHITELIST_TIERS = ["neutral", "reputable", "exemplary"] as const;
+
+export type WhitelistTier = typeof WHITELIST_TIERS[number];
+
+export interface TierPolicy extends WhitelistTierRange {
+  tier: WhitelistTier;
+  policyId: bigint;
+  dailyLimit: bigint | null; // Token units a member may send per UTC day; null is unlimited
+}
+
+export interface TierSyncResult {
+  tier: WhitelistTier;
+  policyId: bigint;
+  result: WhitelistSyncResult;
+}
+
+export class TierConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TierConfigError";
+  }
+}
+
+// Score range of a tier. The lowest tier starts at MIN_ETHOS_SCORE, so the
+// tiers split the main whitelist between them.
+export function getTierRange(tier: WhitelistTier): WhitelistTierRange {
+  const index = WHITELIST_TIERS.indexOf(tier);
+  const next = WHITELIST_TIERS[index + 1];
+  return {
+    tier,
+    minScore: index === 0 ? Math.max(SCORE_LEVEL_MIN_SCORES[tier], MIN_ETHOS_SCORE) : SCORE_LEVEL_MIN_SCORES[tier],
+    maxScore: next ? SCORE_LEVEL_MIN_SCORES[next] : null,
+  };
+}
+
+// Read a whole-ethosUSD daily limit from the environment
+function readDailyLimit(tier: WhitelistTier): bigint | null {
+  const name = `TIER_DAILY_LIMIT_${tier.toUpperCase()}`;
+  const value = Deno.env.get(name);
+  if (!value) {
+    return null;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new TierConfigError(`${name} must be a whole number of ethosUSD`);
+  }
+  return BigInt(value) * 1_000_000n;
+}
+
+// Configured tier policies, lowest tier first
+export function getTierPolicies(): TierPolicy[] {
+  const config = Deno.env.get("ETHOS_TIER_POLICY_IDS");
+  if (!config) {
+    return [];
+  }
+
+  const policyIds = new Map<WhitelistTier, bigint>();
+  for (const pair of config.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const [tier, policyId] = pair.split(":").map((p) => p.trim());
+    if (!WHITELIST_TIERS.includes(tier as WhitelistTier)) {
+      throw new TierConfigError(`Unknown tier "${tier}" in ETHOS_TIER_POLICY_IDS (expected ${WHITELIST_TIERS.join(", ")})`);
+    }
+    if (!/^\d+$/.test(policyId ?? "") || policyId === "0") {
+      throw new TierConfigError(`Invalid policy id for ${tier} in ETHOS_TIER_POLICY_IDS`);
+    }
+    policyIds.set(tier as WhitelistTier, BigInt(policyId));
+  }
+
+  return WHITELIST_TIERS.filter((tier) => policyIds.has(tier)).map((tier) => ({
+    ...getTierRange(tier),
+    tier,
+    policyId: policyIds.get(tier)!,
+    dailyLimit: readDailyLimit(tier),
+  }));
+}
+
+// The highest tier policy that authorizes an address, or null if it's on
+// none of them (or no tiers are configured). Read from the whitelist mirror,
+// which main.ts keeps for every tier policy; a tier whose mirror is behind is
+// read with isAuthorized instead.
+export async function getAddressTier(address: string): Promise<TierPolicy | null> {
+  const tiers = getTierPolicies();
+  const memberships = await Promise.all(tiers.map(async (tier) => {
+    if (isWhitelistMirrorCurrent(await getWhitelistMirrorState(tier.policyId))) {
+      return (await getWhitelistMember(address, tier.policyId))?.allowed ?? false;
+    }
+    const { authorized } = await readAuthorizations([address], { policyId: tier.policyId, policyType: "whitelist" });
+    return authorized.get(address.toLowerCase()) === true;
+  }));
+  return tiers.filter((_, i) => memberships[i]).at(-1) ?? null;
+}
+
+// Sync every configured tier policy with the same addresses. The tiers are
+// synced one after another, since they share the admin account's nonces.
+export async function syncWhitelistTiers(
+  addressesToCheck?: string[],
+  options: WhitelistSyncOptions = {}
+): Promise<TierSyncResult[]> {
+  const results: TierSyncResult[] = [];
+  for (const tier of getTierPolicies()) {
+    const result = await syncWhitelist(addressesToCheck, {
+      ...options,
+      policyId: tier.policyId,
+      policyType: "whitelist",
+      tier: getTierRange(tier.tier),
+    });
+    results.push({ tier: tier.tier, policyId: tier.policyId, result });
+  }
+  return results;
+}
@@ -1,39 +1,602 @@
 // Whitelist sync logic - syncs Ethos scores to TIP-403 policy
+//
+// The sync engine is shared by /api/sync-whitelist and the CLI scripts:
+// - Ethos scores are fetched in bulk batches
+// - isAuthorized reads run concurrently
+// - modifyPolicyWhitelist writes are pipelined with explicit nonces, so many
+//   transactions are in flight at once instead of waiting on each receipt
+// - receipts are tracked per transaction, and dropped or timed out
+//   transactions are retried with backoff (the writes are idempotent)
+//
+// Removals are guarded, so a score dip or an Ethos outage can't strand funds:
+// - hysteresis: addresses are added at MIN_ETHOS_SCORE but only removed below
+//   a lower threshold
+// - grace period: an address must stay below that threshold for a while
+// - circuit breaker: a sync that would remove too many addresses is aborted
+//
+// Every sync starts from a plan (like `terraform plan`): the changes it would
+// make, why, and what they'd cost. A dry run stops there; a plan can also be
+// saved and applied later.
+//
+// Manual overrides (see whitelist-overrides.ts) are always part of a sync and
+// win over the score rule.
+//
+// Every confirmed write is appended to the audit log (see whitelist-audit.ts).
+//
+// The engine also runs blacklist policies (open by default): the same plan is
+// made in terms of who should be authorized, with the score rule inverted
+// (see getPolicyRule), and written with modifyPolicyBlacklist.
+//
+// Tier policies (see whitelist-tiers.ts) are synced the same way, with a
+// score range as the rule and their own score records.
+//
+// Without an explicit list, a sync checks the Ethos candidate set (see
+// ethos-discovery.ts) and the policy's current members.
 
-import { CONTRACTS, TIP403_REGISTRY_ABI } from "./contracts.ts";
-import { createTempoPublicClient, createTempoWalletClient, getAdminPrivateKey } from "./tempo.ts";
-import { filterEligibleAddresses, MIN_ETHOS_SCORE } from "./ethos.ts";
+import { CONTRACTS, POLICY_TYPE, TIP403_REGISTRY_ABI } from "./contracts.ts";
+import {
+  createTempoPublicClient,
+  createTempoWalletClient,
+  formatTokenAmount,
+  getAdminPrivateKey,
+  tempoTestnet,
+} from "./tempo.ts";
+import { checkEligibility, MIN_ETHOS_SCORE } from "./ethos.ts";
+import { commitInBatches, getKv, withAdminNonces } from "./kv.ts";
+import { parseCsv } from "./csv.ts";
+import { DiscoveryError, getCandidateSet, listCandidates } from "./ethos-discovery.ts";
+import {
+  catchUpWhitelistMirror,
+  getWhitelistMember,
+  getWhitelistMirrorState,
+  isWhitelistMirrorCurrent,
+  listWhitelistMembers,
+} from "./whitelist-mirror.ts";
+import { getActiveOverrides, type WhitelistOverride } from "./whitelist-overrides.ts";
+import {
+  appendWhitelistAudit,
+  getDefaultAuditContext,
+  type WhitelistAuditContext,
+  type WhitelistAuditReason,
+} from "./whitelist-audit.ts";
 
-// In-memory cache of whitelisted addresses (in production, use a database)
-const whitelistedAddresses = new Set<string>();
+export type PolicyType = "whitelist" | "blacklist";
 
-// Load seed addresses from CSV or env
-export async function loadSeedAddresses(): Promise<string[]> {
-  const addresses: string[] = [];
-  
-  // Try to load from CSV
-  try {
-    const csvContent = await Deno.readTextFile("./data/seed-addresses.csv");
-    const lines = csvContent.split("\n").filter(line => line.trim());
-    
-    for (const line of lines) {
-      // Skip header row if present
-      if (line.toLowerCase().includes("address")) continue;
-      
-      const address = line.split(",")[0]?.trim();
-      if (address && address.startsWith("0x")) {
-        addresses.push(address.toLowerCase());
+export interface WhitelistSyncOptions {
+  policyId?: bigint;
+  policyType?: PolicyType; // Read from the registry if not given
+  scoreBatchSize?: number; // Addresses per Ethos bulk score request
+  readConcurrency?: number; // Parallel isAuthorized reads
+  maxInFlight?: number; // Transactions sent before waiting for their receipts
+  maxRetries?: number; // Attempts per write before giving up
+  receiptTimeoutMs?: number;
+  dryRun?: boolean; // Only build the plan, don't write anything
+  removeBelowScore?: number; // Whitelisted addresses are removed below this score
+  blacklistBelowScore?: number; // Blacklist policies restrict addresses below this score
+  tier?: WhitelistTierRange; // Sync a tier policy: only scores in this range are authorized
+  removalGraceMs?: number; // How long an address must stay below it first
+  maxRemovalPercent?: number; // Abort if a run would remove more of the whitelist than this
+  force?: boolean; // Apply even if the circuit breaker trips
+  onProgress?: (progress: WhitelistSyncProgress) => void;
+  // Called (and awaited) as each transaction is sent and settled, e.g. to checkpoint a job
+  onTransaction?: (event: WhitelistTxEvent) => void | Promise<void>;
+  audit?: WhitelistAuditContext; // Trigger and operator for the audit log (default: a script run by $USER)
+  // Called before each write batch, e.g. to renew a lease; once it returns
+  // false the remaining changes are failed instead of sent
+  keepAlive?: () => Promise<boolean>;
+}
+
+// Score range of a tier policy
+export interface WhitelistTierRange {
+  tier: string;
+  minScore: number;
+  maxScore: number | null; // Exclusive; null for the top tier
+}
+
+export type WhitelistTxEvent =
+  | { type: "sent"; change: WhitelistChange; txHash: string; nonce: number }
+  | { type: "confirmed"; change: WhitelistChange; txHash: string }
+  | { type: "failed"; change: WhitelistChange; error: string };
+
+export interface WhitelistSyncProgress {
+  phase: "scores" | "reads" | "writes";
+  done: number;
+  total: number;
+}
+
+export interface WhitelistChange {
+  address: string;
+  allowed: boolean; // Authorized to transfer - on a blacklist policy, false means restricted
+  // Why the change was decided, recorded in the audit log
+  reason?: WhitelistAuditReason;
+  score?: number | null;
+  threshold?: number | null;
+}
+
+export interface WhitelistWriteResult {
+  applied: (WhitelistChange & { txHash: string })[];
+  failed: (WhitelistChange & { error: string })[];
+}
+
+const DEFAULT_OPTIONS = {
+  scoreBatchSize: 500,
+  readConcurrency: 20,
+  maxInFlight: 50,
+  maxRetries: 3,
+  receiptTimeoutMs: 60_000,
+};
+
+// Base delay before retrying a round of failed writes (doubles each attempt)
+const RETRY_BACKOFF_MS = 2_000;
+
+function readNumber(name: string, fallback: number): number {
+  const value = Deno.env.get(name);
+  return value ? Number(value) : fallback;
+}
+
+// Removal safeguards from the environment
+// WHITELIST_REMOVE_BELOW_SCORE (default 1300), WHITELIST_REMOVAL_GRACE_HOURS
+// (default 72), WHITELIST_MAX_REMOVAL_PERCENT (default 10)
+export function getRemovalSafeguards() {
+  return {
+    removeBelowScore: readNumber("WHITELIST_REMOVE_BELOW_SCORE", 1300),
+    removalGraceMs: readNumber("WHITELIST_REMOVAL_GRACE_HOURS", 72) * 60 * 60 * 1000,
+    maxRemovalPercent: readNumber("WHITELIST_MAX_REMOVAL_PERCENT", 10),
+  };
+}
+
+// Score below which a blacklist policy restricts an address
+// BLACKLIST_BELOW_SCORE (default 800, the top of "untrusted")
+export function getBlacklistBelowScore(): number {
+  return readNumber("BLACKLIST_BELOW_SCORE", 800);
+}
+
+function resolveOptions(options: WhitelistSyncOptions) {
+  return {
+    ...DEFAULT_OPTIONS,
+    ...getRemovalSafeguards(),
+    blacklistBelowScore: getBlacklistBelowScore(),
+    ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)),
+    policyId: options.policyId ?? CONTRACTS.POLICY_ID,
+  } as typeof DEFAULT_OPTIONS & ReturnType<typeof getRemovalSafeguards> & WhitelistSyncOptions & {
+    policyId: bigint;
+    blacklistBelowScore: number;
+  };
+}
+
+// A policy's type never changes, so it's read once per process
+const policyTypes = new Map<bigint, PolicyType>();
+
+export async function getPolicyType(policyId: bigint): Promise<PolicyType> {
+  const cached = policyTypes.get(policyId);
+  if (cached) {
+    return cached;
+  }
+  const publicClient = createTempoPublicClient();
+  const [policyType] = await publicClient.readContract({
+    address: CONTRACTS.TIP403_REGISTRY,
+    abi: TIP403_REGISTRY_ABI,
+    functionName: "policyData",
+    args: [policyId],
+  });
+  const type = policyType === POLICY_TYPE.BLACKLIST ? "blacklist" : "whitelist";
+  policyTypes.set(policyId, type);
+  return type;
+}
+
+// Who a policy should authorize, by Ethos score
+export interface PolicyRule {
+  policyType: PolicyType;
+  addAtScore: number; // Authorized at or above this score
+  removeBelowScore: number; // Unauthorized below this score, after the grace period
+  removeWithoutScore: boolean; // Whether an address with no Ethos score is unauthorized
+  maxScore: number | null; // Unauthorized at or above this score (tier policies)
+}
+
+// A whitelist authorizes addresses from MIN_ETHOS_SCORE and removes them below
+// removeBelowScore or without a score. A blacklist is the inverse: everyone is
+// authorized, including addresses without a score, and addresses below
+// blacklistBelowScore are restricted. A tier policy holds exactly the
+// addresses in its score range.
+export function getPolicyRule(
+  policyType: PolicyType,
+  options: { removeBelowScore: number; blacklistBelowScore: number; tier?: WhitelistTierRange }
+): PolicyRule {
+  if (options.tier) {
+    return {
+      policyType,
+      addAtScore: options.tier.minScore,
+      removeBelowScore: options.tier.minScore,
+      removeWithoutScore: true,
+      maxScore: options.tier.maxScore,
+    };
+  }
+  if (policyType === "blacklist") {
+    return {
+      policyType,
+      addAtScore: options.blacklistBelowScore,
+      removeBelowScore: options.blacklistBelowScore,
+      removeWithoutScore: false,
+      maxScore: null,
+    };
+  }
+  return {
+    policyType,
+    addAtScore: MIN_ETHOS_SCORE,
+    removeBelowScore: options.removeBelowScore,
+    removeWithoutScore: true,
+    maxScore: null,
+  };
+}
+
+// Whether the rule authorizes an address with this score (undefined: no Ethos score)
+function isEligibleUnder(rule: PolicyRule, score: number | undefined): boolean {
+  if (score === undefined) {
+    return !rule.removeWithoutScore;
+  }
+  return score >= rule.addAtScore && (rule.maxScore === null || score < rule.maxScore);
+}
+
+// The registry call that sets a change: modifyPolicyWhitelist(allowed) or
+// modifyPolicyBlacklist(restricted)
+function getPolicyWrite(policyType: PolicyType, policyId: bigint, change: WhitelistChange) {
+  const account = change.address.toLowerCase() as `0x${string}`;
+  return policyType === "blacklist"
+    ? { functionName: "modifyPolicyBlacklist" as const, args: [policyId, account, !change.allowed] as const }
+    : { functionName: "modifyPolicyWhitelist" as const, args: [policyId, account, change.allowed] as const };
+}
+
+// Run an async function over items with a fixed number of workers
+async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>,
+  onDone?: (done: number) => void
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+      onDone?.(++done);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+export interface WhitelistCsvEntry {
+  address: string; // Lowercased
+  allowed?: boolean; // From an "allowed" column, if there is one
+  score?: number; // From a "score" column, if there is one
+}
+
+export interface WhitelistCsv {
+  entries: WhitelistCsvEntry[]; // One per address, the last row wins
+  invalid: { row: number; value: string }[]; // Rows (counting the header) without a valid address
+}
+
+// Parse a whitelist CSV. Addresses come from the "address" column, or the
+// first column if there's no header; "allowed" and "score" columns are optional.
+export function parseWhitelistCsv(content: string): WhitelistCsv {
+  const rows = parseCsv(content);
+  const header = rows[0]?.map((h) => h.toLowerCase()) ?? [];
+  const hasHeader = header.includes("address");
+  const addressIndex = hasHeader ? header.indexOf("address") : 0;
+  const allowedIndex = hasHeader ? header.indexOf("allowed") : -1;
+  const scoreIndex = hasHeader ? header.indexOf("score") : -1;
+
+  const entries = new Map<string, WhitelistCsvEntry>();
+  const invalid: WhitelistCsv["invalid"] = [];
+  for (const [index, row] of rows.entries()) {
+    if (hasHeader && index === 0) {
+      continue;
+    }
+    const value = row[addressIndex] ?? "";
+    if (!/^0x[a-fA-F0-9]{40}$/.test(value)) {
+      invalid.push({ row: index + 1, value });
+      continue;
+    }
+
+    const entry: WhitelistCsvEntry = { address: value.toLowerCase() };
+    if (allowedIndex !== -1 && row[allowedIndex]) {
+      entry.allowed = row[allowedIndex].toLowerCase() === "true";
+    }
+    if (scoreIndex !== -1 && row[scoreIndex] && !Number.isNaN(Number(row[scoreIndex]))) {
+      entry.score = Number(row[scoreIndex]);
+    }
+    entries.set(entry.address, entry);
+  }
+
+  return { entries: [...entries.values()], invalid };
+}
+
+export async function loadWhitelistCsv(path: string): Promise<WhitelistCsv> {
+  return parseWhitelistCsv(await Deno.readTextFile(path));
+}
+
+// Load the addresses in a whitelist CSV file
+export async function loadAddressesFromCsv(path: string): Promise<string[]> {
+  return (await loadWhitelistCsv(path)).entries.map((entry) => entry.address);
+}
+
+// Addresses a sync checks by default: the discovered Ethos candidate set
+// (see ethos-discovery.ts) plus the policy's current members (the addresses a
+// blacklist restricts), so members who drop out of the candidate set are
+// still checked for removal. Refuses while the candidate set is empty (before
+// the first discovery), rather than sync against the members alone.
+export async function loadCandidateAddresses(policyId = CONTRACTS.POLICY_ID): Promise<string[]> {
+  const set = await getCandidateSet();
+  if (!set || set.addresses === 0) {
+    throw new DiscoveryError("The Ethos candidate set is empty - run discovery (deno task whitelist discover) first");
+  }
+
+  const addresses = new Set((await listCandidates()).map((candidate) => candidate.address));
+  if (policyId !== 0n) {
+    // A whitelist's members are its allowed addresses, a blacklist's its restricted ones
+    const memberAllowed = await getPolicyType(policyId) === "whitelist";
+    await catchUpWhitelistMirror(policyId);
+    for (const member of await listWhitelistMembers(policyId)) {
+      if (member.allowed === memberAllowed) addresses.add(member.address);
+    }
+  }
+  return [...addresses].sort();
+}
+
+// Fetch Ethos scores in bulk batches. Addresses in a batch the API failed
+// on are returned as unknown, with the error.
+async function fetchScores(
+  addresses: string[],
+  batchSize: number,
+  onProgress?: (progress: WhitelistSyncProgress) => void
+): Promise<{ scores: Map<string, number>; unknown: Map<string, string> }> {
+  const scores = new Map<string, number>();
+  const unknown = new Map<string, string>();
+
+  for (let i = 0; i < addresses.length; i += batchSize) {
+    const batch = await checkEligibility(addresses.slice(i, i + batchSize));
+    for (const [address, { status, score, error }] of batch) {
+      if (status === "unknown") {
+        unknown.set(address, error ?? "Ethos score unavailable");
+      }
+      if (score !== null) {
+        scores.set(address, score);
       }
     }
-  } catch {
-    // CSV doesn't exist, try env
-    const envAddresses = Deno.env.get("SEED_ADDRESSES");
-    if (envAddresses) {
-      addresses.push(...envAddresses.split(",").map(a => a.trim().toLowerCase()));
+    onProgress?.({ phase: "scores", done: Math.min(i + batchSize, addresses.length), total: addresses.length });
+  }
+
+  return { scores, unknown };
+}
+
+// Read current on-chain authorization for many addresses concurrently.
+// Addresses whose read fails are left out of the result.
+export async function readAuthorizations(
+  addresses: string[],
+  options: WhitelistSyncOptions = {}
+): Promise<{ authorized: Map<string, boolean>; errors: string[] }> {
+  const { policyId, readConcurrency, onProgress } = resolveOptions(options);
+  const publicClient = createTempoPublicClient();
+  const authorized = new Map<string, boolean>();
+  const errors: string[] = [];
+
+  await mapConcurrent(
+    addresses,
+    readConcurrency,
+    async (address) => {
+      try {
+        const isAuthorized = await publicClient.readContract({
+          address: CONTRACTS.TIP403_REGISTRY,
+          abi: TIP403_REGISTRY_ABI,
+          functionName: "isAuthorized",
+          args: [policyId, address.toLowerCase() as `0x${string}`],
+        });
+        authorized.set(address.toLowerCase(), isAuthorized);
+      } catch (error) {
+        errors.push(`Failed to read ${address}: ${error}`);
+      }
+    },
+    (done) => onProgress?.({ phase: "reads", done, total: addresses.length })
+  );
+
+  return { authorized, errors };
+}
+
+// Append a confirmed write to the audit log. The transaction has landed
+// either way, so a KV failure is logged rather than failing the write.
+export async function recordWhitelistAudit(
+  change: WhitelistChange,
+  txHash: string,
+  policyId: bigint,
+  audit: WhitelistAuditContext = getDefaultAuditContext()
+): Promise<void> {
+  try {
+    await appendWhitelistAudit({
+      policyId: policyId.toString(),
+      address: change.address.toLowerCase(),
+      action: change.allowed ? "add" : "remove",
+      reason: change.reason ?? null,
+      score: change.score ?? null,
+      threshold: change.threshold ?? null,
+      txHash,
+      trigger: audit.trigger,
+      operator: audit.operator,
+      runId: audit.runId ?? null,
+    });
+  } catch (error) {
+    console.error(`Failed to audit ${change.allowed ? "add" : "remove"} of ${change.address} (${txHash}):`, error);
+  }
+}
+
+// Send whitelist changes with explicit nonces, track receipts, retry drops
+export async function applyWhitelistChanges(
+  changes: WhitelistChange[],
+  options: WhitelistSyncOptions = {}
+): Promise<WhitelistWriteResult> {
+  const { policyId, maxInFlight, maxRetries, receiptTimeoutMs, onProgress, onTransaction, audit, keepAlive } =
+    resolveOptions(options);
+  const result: WhitelistWriteResult = { applied: [], failed: [] };
+  if (changes.length === 0) {
+    return result;
+  }
+  const policyType = options.policyType ?? await getPolicyType(policyId);
+
+  const publicClient = createTempoPublicClient();
+  const walletClient = createTempoWalletClient(getAdminPrivateKey());
+  const account = walletClient.account!;
+
+  let pending = changes.map((change) => ({ change, attempts: 0 }));
+  const total = changes.length;
+
+  for (let round = 0; pending.length > 0; round++) {
+    if (round > 0) {
+      await new Promise((resolve) => setTimeout(resolve, RETRY_BACKOFF_MS * 2 ** (round - 1)));
     }
+
+    const retry: typeof pending = [];
+    const fail = async (change: WhitelistChange, error: string) => {
+      result.failed.push({ ...change, error });
+      await onTransaction?.({ type: "failed", change, error });
+    };
+    const giveUpOrRetry = async (item: typeof pending[number], error: unknown) => {
+      if (item.attempts < maxRetries) {
+        retry.push(item);
+      } else {
+        await fail(item.change, String(error));
+      }
+    };
+
+    for (let i = 0; i < pending.length; i += maxInFlight) {
+      // Stop rather than write alongside whoever took over (e.g. a sync that outlived its lease)
+      if (keepAlive && !await keepAlive()) {
+        for (const item of [...retry, ...pending.slice(i)]) {
+          await fail(item.change, "Stopped: the sync lock was lost");
+        }
+        return result;
+      }
+
+      const batch = pending.slice(i, i + maxInFlight);
+
+      // Fresh nonce per batch - covers transactions that were dropped. The
+      // admin nonce lease keeps claim mints from taking the same nonces.
+      const sent: { item: typeof batch[number]; hash: `0x${string}` }[] = [];
+      await withAdminNonces(async (renew) => {
+        let nonce = await publicClient.getTransactionCount({ address: account.address, blockTag: "pending" });
+
+        for (const [index, item] of batch.entries()) {
+          // Lost the lease - send the rest in the next round instead
+          if (!await renew()) {
+            retry.push(...batch.slice(index));
+            return;
+          }
+
+          item.attempts++;
+          try {
+            const hash = await walletClient.writeContract({
+              account,
+              chain: tempoTestnet,
+              address: CONTRACTS.TIP403_REGISTRY,
+              abi: TIP403_REGISTRY_ABI,
+              ...getPolicyWrite(policyType, policyId, item.change),
+              nonce,
+            });
+            sent.push({ item, hash });
+            await onTransaction?.({ type: "sent", change: item.change, txHash: hash, nonce });
+            nonce++;
+          } catch (error) {
+            // Not broadcast, so the nonce is still free for the next address
+            await giveUpOrRetry(item, error);
+          }
+        }
+      });
+
+      await Promise.all(sent.map(async ({ item, hash }) => {
+        try {
+          const receipt = await publicClient.waitForTransactionReceipt({ hash, timeout: receiptTimeoutMs });
+          if (receipt.status === "success") {
+            result.applied.push({ ...item.change, txHash: hash });
+            await recordWhitelistAudit(item.change, hash, policyId, audit);
+            await onTransaction?.({ type: "confirmed", change: item.change, txHash: hash });
+          } else {
+            // Reverted - retrying won't help
+            await fail(item.change, `Transaction reverted: ${hash}`);
+          }
+        } catch (error) {
+          // Dropped or still pending - safe to resend, setting the same value twice is a no-op
+          await giveUpOrRetry(item, error);
+        }
+      }));
+
+      onProgress?.({ phase: "writes", done: result.applied.length + result.failed.length, total });
+    }
+
+    pending = retry;
+  }
+
+  return result;
+}
+
+// Why a plan adds or removes an address
+export type WhitelistPlanReason =
+  | "new_address" // Eligible and not seen by a previous sync
+  | "score_change" // Crossed a threshold since the last sync
+  | "missing_on_chain" // Eligible before and now, but not authorized
+  | "below_min_score" // Authorized, below the removal threshold for the whole grace period
+  | "no_score" // Whitelisted, without an Ethos score for the whole grace period
+  | "above_max_score" // On a tier policy, scored into a higher tier
+  | "override"; // Pinned by a manual allow/deny override
+
+export interface WhitelistPlanChange extends WhitelistChange {
+  reason: WhitelistPlanReason;
+  score: number | null;
+  previousScore: number | null;
+}
+
+export interface WhitelistFeeEstimate {
+  txCount: number;
+  gasPrice: string | null;
+  totalGas: string | null;
+  totalFee: string | null; // Base units of the fee token
+  totalFeeFormatted: string | null;
+  error?: string;
+}
+
+// A whitelisted address below the removal threshold that is still in its grace period
+export interface WhitelistHeldRemoval {
+  address: string;
+  score: number | null;
+  belowSince: string;
+  removableAt: string;
+}
+
+// A saved plan is plain JSON, so bigints are strings
+export interface WhitelistPlan {
+  createdAt: string;
+  policyId: string;
+  policyType: PolicyType;
+  tier: string | null; // Tier policy, if this plan syncs one
+  minScore: number; // Authorized from this score
+  maxScore: number | null; // Tier policies: authorized below this score
+  removeBelowScore: number;
+  checked: number;
+  unchanged: number;
+  changes: WhitelistPlanChange[];
+  held: WhitelistHeldRemoval[];
+  unknown: string[]; // Skipped because the Ethos API couldn't say whether they're eligible
+  estimate: WhitelistFeeEstimate;
+  blocked: string | null; // Why the circuit breaker stopped this plan
+  errors: string[];
+}
+
+export class WhitelistPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WhitelistPlanError";
   }
-  
-  return addresses;
 }
 
 export interface WhitelistSyncResult {
@@ -42,11 +605,340 @@ export interface WhitelistSyncResult {
   removed: string[];
   scores: Map<string, number>;
   errors: string[];
+  unknown: string[]; // Left as they are because their Ethos score couldn't be fetched
+  plan: WhitelistPlan | null;
+}
+
+interface ScoreRecord {
+  score: number | null;
+  checkedAt: string;
+  belowSince?: string; // First sync that saw it below the removal threshold
+}
+
+// Each tier policy keeps its own records, since its grace periods run against its own range
+function scoreRecordPrefix(tier?: WhitelistTierRange): Deno.KvKey {
+  return tier ? ["whitelist_tier_scores", tier.tier] : ["whitelist_scores"];
 }
 
-// Sync whitelist with current Ethos scores
+// Scores seen by the last sync, keyed by address
+async function getPreviousScores(tier?: WhitelistTierRange): Promise<Map<string, ScoreRecord>> {
+  const kv = await getKv();
+  const prefix = scoreRecordPrefix(tier);
+  const previous = new Map<string, ScoreRecord>();
+  for await (const entry of kv.list<ScoreRecord>({ prefix })) {
+    previous.set(entry.key[prefix.length] as string, entry.value);
+  }
+  return previous;
+}
+
+// Remember the scores a sync acted on, for the next plan's reasons and grace periods
+async function recordScores(
+  addresses: string[],
+  scores: Map<string, number>,
+  belowSince: Map<string, string>,
+  tier?: WhitelistTierRange
+): Promise<void> {
+  const checkedAt = new Date().toISOString();
+  await commitInBatches(addresses, (op, address) => {
+    op.set([...scoreRecordPrefix(tier), address], {
+      score: scores.get(address) ?? null,
+      checkedAt,
+      belowSince: belowSince.get(address),
+    } satisfies ScoreRecord);
+  });
+}
+
+// Estimate gas for one add and one remove, then scale by the number of each
+async function estimateFees(
+  changes: WhitelistChange[],
+  policyId: bigint,
+  policyType: PolicyType
+): Promise<WhitelistFeeEstimate> {
+  const estimate: WhitelistFeeEstimate = {
+    txCount: changes.length,
+    gasPrice: null,
+    totalGas: null,
+    totalFee: null,
+    totalFeeFormatted: null,
+  };
+  if (changes.length === 0) {
+    return { ...estimate, totalGas: "0", totalFee: "0", totalFeeFormatted: "0" };
+  }
+
+  try {
+    const publicClient = createTempoPublicClient();
+    const account = createTempoWalletClient(getAdminPrivateKey()).account!;
+    const gasPrice = await publicClient.getGasPrice();
+
+    let totalGas = 0n;
+    for (const allowed of [true, false]) {
+      const matching = changes.filter((change) => change.allowed === allowed);
+      if (matching.length === 0) {
+        continue;
+      }
+      const gas = await publicClient.estimateContractGas({
+        account,
+        address: CONTRACTS.TIP403_REGISTRY,
+        abi: TIP403_REGISTRY_ABI,
+        ...getPolicyWrite(policyType, policyId, matching[0]),
+      });
+      totalGas += gas * BigInt(matching.length);
+    }
+
+    const totalFee = totalGas * gasPrice;
+    return {
+      txCount: changes.length,
+      gasPrice: gasPrice.toString(),
+      totalGas: totalGas.toString(),
+      totalFee: totalFee.toString(),
+      totalFeeFormatted: formatTokenAmount(totalFee, tempoTestnet.nativeCurrency.decimals),
+    };
+  } catch (error) {
+    return { ...estimate, error: `Fee estimate failed: ${error}` };
+  }
+}
+
+// Explain a change using the score the previous sync saw
+function getPlanReason(
+  change: WhitelistChange,
+  score: number | null,
+  previous: ScoreRecord | undefined,
+  rule: PolicyRule
+): WhitelistPlanReason {
+  const previousScore = previous?.score ?? null;
+
+  if (change.allowed) {
+    if (!previous) {
+      return "new_address";
+    }
+    return isEligibleUnder(rule, previousScore ?? undefined) ? "missing_on_chain" : "score_change";
+  }
+  if (score === null) {
+    return "no_score";
+  }
+  if (rule.maxScore !== null && score >= rule.maxScore) {
+    return "above_max_score";
+  }
+  return previousScore !== null && previousScore >= rule.removeBelowScore ? "score_change" : "below_min_score";
+}
+
+// Compare Ethos eligibility with on-chain state
+async function buildPlan(
+  addresses: string[],
+  options: ReturnType<typeof resolveOptions>
+): Promise<{
+  plan: WhitelistPlan;
+  scores: Map<string, number>;
+  belowSince: Map<string, string>;
+}> {
+  // Overrides pin the main policy only - a tier always follows the score
+  const overrides = options.tier ? new Map<string, WhitelistOverride>() : await getActiveOverrides();
+  addresses = [...new Set([...addresses, ...overrides.keys()])];
+
+  const policyType = options.policyType ?? await getPolicyType(options.policyId);
+  const rule = getPolicyRule(policyType, options);
+  const [{ scores, unknown }, previous] = await Promise.all([
+    fetchScores(addresses, options.scoreBatchSize, options.onProgress),
+    getPreviousScores(options.tier),
+  ]);
+
+  // Overridden addresses don't need a score
+  for (const address of overrides.keys()) {
+    unknown.delete(address);
+  }
+
+  // Addresses with an unknown score are left out entirely - no change, and their grace period doesn't move
+  const known = addresses.filter((address) => !unknown.has(address));
+  const { authorized, errors } = await readAuthorizations(known, options);
+  const now = Date.now();
+
+  // One error line per distinct API failure
+  const failures = new Map<string, number>();
+  for (const error of unknown.values()) {
+    failures.set(error, (failures.get(error) ?? 0) + 1);
+  }
+  for (const [error, count] of failures) {
+    errors.push(`Ethos scores unavailable for ${count} addresses: ${error}`);
+  }
+
+  // Track when each address first fell below the removal threshold
+  const belowSince = new Map<string, string>();
+  for (const address of known) {
+    const score = scores.get(address);
+    if (score === undefined ? rule.removeWithoutScore : score < rule.removeBelowScore) {
+      belowSince.set(address, previous.get(address)?.belowSince ?? new Date(now).toISOString());
+    }
+  }
+
+  const changes: WhitelistPlanChange[] = [];
+  const held: WhitelistHeldRemoval[] = [];
+  for (const [address, isCurrentlyAuthorized] of authorized) {
+    const score = scores.get(address) ?? null;
+    const since = belowSince.get(address);
+    const override = overrides.get(address);
+    const aboveMax = score !== null && rule.maxScore !== null && score >= rule.maxScore;
+    let shouldBeAuthorized = isCurrentlyAuthorized;
+
+    if (override) {
+      shouldBeAuthorized = override.mode === "allow";
+    } else if (!isCurrentlyAuthorized && isEligibleUnder(rule, scores.get(address))) {
+      shouldBeAuthorized = true;
+    } else if (isCurrentlyAuthorized && aboveMax) {
+      // Moved up a tier - no grace period, it only changes which tier holds the address
+      shouldBeAuthorized = false;
+    } else if (isCurrentlyAuthorized && since) {
+      const removableAt = Date.parse(since) + options.removalGraceMs;
+      if (removableAt <= now) {
+        shouldBeAuthorized = false;
+      } else {
+        held.push({ address, score, belowSince: since, removableAt: new Date(removableAt).toISOString() });
+      }
+    }
+
+    if (shouldBeAuthorized !== isCurrentlyAuthorized) {
+      const change = { address, allowed: shouldBeAuthorized };
+      changes.push({
+        ...change,
+        reason: override ? "override" : getPlanReason(change, score, previous.get(address), rule),
+        score,
+        previousScore: previous.get(address)?.score ?? null,
+        threshold: override ? null : shouldBeAuthorized ? rule.addAtScore : aboveMax ? rule.maxScore : rule.removeBelowScore,
+      });
+    }
+  }
+
+  // Circuit breaker - a mass removal is more likely an outage than real score drops.
+  // Deny overrides were asked for explicitly and tier promotions aren't losses, so they don't count.
+  const removals = changes.filter(
+    (change) => !change.allowed && change.reason !== "override" && change.reason !== "above_max_score"
+  ).length;
+  const whitelisted = [...authorized.values()].filter(Boolean).length;
+  const removalPercent = whitelisted === 0 ? 0 : (removals / whitelisted) * 100;
+  const blocked = removalPercent > options.maxRemovalPercent
+    ? `Circuit breaker: ${removals} of ${whitelisted} authorized addresses (${removalPercent.toFixed(1)}%) would be removed, above the ${options.maxRemovalPercent}% limit`
+    : null;
+
+  const plan: WhitelistPlan = {
+    createdAt: new Date(now).toISOString(),
+    policyId: options.policyId.toString(),
+    policyType,
+    tier: options.tier?.tier ?? null,
+    minScore: rule.addAtScore,
+    maxScore: rule.maxScore,
+    removeBelowScore: rule.removeBelowScore,
+    checked: addresses.length,
+    unchanged: authorized.size - changes.length,
+    changes,
+    held,
+    unknown: [...unknown.keys()],
+    estimate: await estimateFees(changes, options.policyId, policyType),
+    blocked,
+    errors,
+  };
+
+  return { plan, scores, belowSince };
+}
+
+// Build a plan without touching the whitelist
+export async function planWhitelistSync(
+  addressesToCheck?: string[],
+  options: WhitelistSyncOptions = {}
+): Promise<WhitelistPlan> {
+  const resolved = resolveOptions(options);
+  if (resolved.policyId === 0n) {
+    throw new WhitelistPlanError("ETHOS_POLICY_ID not configured");
+  }
+  const addresses = [
+    ...new Set((addressesToCheck || await loadCandidateAddresses(resolved.policyId)).map((a) => a.toLowerCase())),
+  ];
+  return (await buildPlan(addresses, resolved)).plan;
+}
+
+// Check a saved plan (e.g. parsed from JSON) before applying it
+export function parseWhitelistPlan(raw: unknown): WhitelistPlan {
+  const plan = raw as WhitelistPlan;
+  if (!plan || typeof plan !== "object" || !Array.isArray(plan.changes)) {
+    throw new WhitelistPlanError("Plan must be an object with a changes list");
+  }
+  if (typeof plan.policyId !== "string" || !/^\d+$/.test(plan.policyId) || plan.policyId === "0") {
+    throw new WhitelistPlanError("Plan has no valid policyId");
+  }
+  for (const change of plan.changes) {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(change?.address) || typeof change.allowed !== "boolean") {
+      throw new WhitelistPlanError(`Plan has an invalid change: ${JSON.stringify(change)}`);
+    }
+  }
+  return {
+    ...plan,
+    policyType: plan.policyType ?? "whitelist",
+    tier: plan.tier ?? null,
+    maxScore: plan.maxScore ?? null,
+    held: plan.held ?? [],
+    unknown: plan.unknown ?? [],
+    blocked: plan.blocked ?? null,
+  };
+}
+
+// Apply planned changes and fold the outcome into a sync result
+async function executePlan(
+  plan: WhitelistPlan,
+  options: WhitelistSyncOptions,
+  result: WhitelistSyncResult
+): Promise<void> {
+  const { applied, failed } = await applyWhitelistChanges(plan.changes, options);
+  for (const change of applied) {
+    if (change.allowed) {
+      result.added.push(change.address);
+    } else {
+      result.removed.push(change.address);
+    }
+  }
+  for (const change of failed) {
+    result.errors.push(`Failed to ${change.allowed ? "add" : "remove"} ${change.address}: ${change.error}`);
+  }
+}
+
+// Apply a saved plan. Changes that are already on chain are skipped, so a
+// plan can be applied more than once.
+export async function applyWhitelistPlan(
+  plan: WhitelistPlan,
+  options: WhitelistSyncOptions = {}
+): Promise<WhitelistSyncResult> {
+  const policyId = BigInt(plan.policyId);
+  const result: WhitelistSyncResult = {
+    checked: plan.changes.length,
+    added: [],
+    removed: [],
+    scores: new Map(plan.changes.filter((c) => c.score !== null).map((c) => [c.address.toLowerCase(), c.score!])),
+    errors: [],
+    unknown: [],
+    plan,
+  };
+
+  if (plan.blocked && !options.force) {
+    result.errors.push(plan.blocked);
+    return result;
+  }
+
+  try {
+    const { authorized, errors } = await readAuthorizations(plan.changes.map((c) => c.address), { ...options, policyId });
+    result.errors.push(...errors);
+
+    const pending = plan.changes
+      .map((change) => ({ ...change, address: change.address.toLowerCase() }))
+      .filter((change) => authorized.has(change.address) && authorized.get(change.address) !== change.allowed);
+    await executePlan({ ...plan, changes: pending }, { ...options, policyId }, result);
+    return result;
+  } catch (error) {
+    result.errors.push(`Apply failed: ${error}`);
+    return result;
+  }
+}
+
+// Sync whitelist with current Ethos scores (or only plan it, with dryRun)
 export async function syncWhitelist(
-  addressesToCheck?: string[]
+  addressesToCheck?: string[],
+  options: WhitelistSyncOptions = {}
 ): Promise<WhitelistSyncResult> {
   const result: WhitelistSyncResult = {
     checked: 0,
@@ -54,79 +946,57 @@ export async function syncWhitelist(
     removed: [],
     scores: new Map(),
     errors: [],
+    unknown: [],
+    plan: null,
   };
 
   try {
+    const resolved = resolveOptions(options);
+
     // Get addresses to check
-    const addresses = addressesToCheck || await loadSeedAddresses();
+    const addresses = [
+      ...new Set((addressesToCheck || await loadCandidateAddresses(resolved.policyId)).map((a) => a.toLowerCase())),
+    ];
     result.checked = addresses.length;
 
     if (addresses.length === 0) {
       return result;
     }
 
-    // Filter eligible addresses via Ethos API
-    const { eligible, scores } = await filterEligibleAddresses(addresses);
-    result.scores = scores;
-
-    // Get policy ID
-    const policyId = CONTRACTS.POLICY_ID;
-    if (policyId === 0n) {
+    if (resolved.policyId === 0n) {
       result.errors.push("ETHOS_POLICY_ID not configured");
       return result;
     }
 
-    // Initialize clients
-    const publicClient = createTempoPublicClient();
-    const walletClient = createTempoWalletClient(getAdminPrivateKey());
-
-    // Check current authorization status and update
-    for (const address of addresses) {
-      const normalizedAddress = address.toLowerCase() as `0x${string}`;
-      const isCurrentlyAuthorized = await publicClient.readContract({
-        address: CONTRACTS.TIP403_REGISTRY,
-        abi: TIP403_REGISTRY_ABI,
-        functionName: "isAuthorized",
-        args: [policyId, normalizedAddress],
-      });
+    const { plan, scores, belowSince } = await buildPlan(addresses, resolved);
+    result.plan = plan;
+    result.checked = plan.checked;
+    result.scores = scores;
+    result.unknown = plan.unknown;
+    result.errors.push(...plan.errors);
 
-      const shouldBeAuthorized = eligible.includes(normalizedAddress);
+    if (resolved.dryRun) {
+      return result;
+    }
 
-      if (shouldBeAuthorized && !isCurrentlyAuthorized) {
-        // Add to whitelist
-        try {
-          const hash = await walletClient.writeContract({
-            address: CONTRACTS.TIP403_REGISTRY,
-            abi: TIP403_REGISTRY_ABI,
-            functionName: "modifyPolicyWhitelist",
-            args: [policyId, normalizedAddress, true],
-          });
-          await publicClient.waitForTransactionReceipt({ hash });
-          result.added.push(normalizedAddress);
-          whitelistedAddresses.add(normalizedAddress);
-        } catch (error) {
-          result.errors.push(`Failed to add ${normalizedAddress}: ${error}`);
-        }
-      } else if (!shouldBeAuthorized && isCurrentlyAuthorized) {
-        // Remove from whitelist
-        try {
-          const hash = await walletClient.writeContract({
-            address: CONTRACTS.TIP403_REGISTRY,
-            abi: TIP403_REGISTRY_ABI,
-            functionName: "modifyPolicyWhitelist",
-            args: [policyId, normalizedAddress, false],
-          });
-          await publicClient.waitForTransactionReceipt({ hash });
-          result.removed.push(normalizedAddress);
-          whitelistedAddresses.delete(normalizedAddress);
-        } catch (error) {
-          result.errors.push(`Failed to remove ${normalizedAddress}: ${error}`);
-        }
-      } else if (shouldBeAuthorized) {
-        whitelistedAddresses.add(normalizedAddress);
-      }
+    // Nothing is written or recorded, so grace periods don't start during an outage
+    if (plan.blocked && !resolved.force) {
+      result.errors.push(plan.blocked);
+      return result;
     }
 
+    // Apply the differences
+    await executePlan(plan, resolved, result);
+
+    // Failed writes and unknown addresses keep their old record, so the next
+    // plan explains them the same way and their grace period doesn't move
+    const applied = new Set([...result.added, ...result.removed]);
+    const skipped = new Set([
+      ...plan.changes.map((c) => c.address).filter((address) => !applied.has(address)),
+      ...plan.unknown,
+    ]);
+    await recordScores(addresses.filter((address) => !skipped.has(address)), scores, belowSince, resolved.tier);
+
     return result;
   } catch (error) {
     result.errors.push(`Sync failed: ${error}`);
@@ -134,9 +1004,23 @@ export async function syncWhitelist(
   }
 }
 
-// Check if an address is whitelisted (cached)
-export function isWhitelisted(address: string): boolean {
-  return whitelistedAddresses.has(address.toLowerCase());
+// Check if an address is whitelisted (not restricted, on a blacklist policy),
+// from the event mirror when it's caught up with the chain, otherwise with an
+// RPC call
+export async function isWhitelisted(address: string): Promise<boolean> {
+  if (CONTRACTS.POLICY_ID === 0n) {
+    return false;
+  }
+  try {
+    if (isWhitelistMirrorCurrent(await getWhitelistMirrorState())) {
+      // An address no event mentions is on a blacklist's open default
+      const openByDefault = await getPolicyType(CONTRACTS.POLICY_ID) === "blacklist";
+      return (await getWhitelistMember(address))?.allowed ?? openByDefault;
+    }
+  } catch (error) {
+    console.error("Whitelist mirror unavailable:", error);
+  }
+  return await checkAuthorization(address);
 }
 
 // Check if an address is authorized on-chain
@@ -147,7 +1031,7 @@ export async function checkAuthorization(address: string): Promise<boolean> {
   }
 
   const publicClient = createTempoPublicClient();
-  
+
   try {
     const isAuthorized = await publicClient.readContract({
       address: CONTRACTS.TIP403_REGISTRY,
@@ -161,43 +1045,41 @@ export async function checkAuthorization(address: string): Promise<boolean> {
   }
 }
 
-// Add a single address to whitelist (if eligible)
+// Authorize a single address if the policy's score rule allows it - add it
+// to a whitelist, or lift its restriction on a blacklist
 export async function addToWhitelistIfEligible(
   address: string
 ): Promise<{ success: boolean; score?: number; error?: string }> {
   try {
-    const { eligible, scores } = await filterEligibleAddresses([address]);
-    const score = scores.get(address.toLowerCase());
+    const policyId = CONTRACTS.POLICY_ID;
+    if (policyId === 0n) {
+      return { success: false, error: "Policy not configured" };
+    }
+
+    const rule = getPolicyRule(await getPolicyType(policyId), resolveOptions({}));
+    const eligibility = (await checkEligibility([address])).get(address.toLowerCase());
+    const score = eligibility?.score ?? undefined;
+
+    if (eligibility?.status === "unknown") {
+      return { success: false, error: "Ethos score is unavailable right now, try again later" };
+    }
 
-    if (!eligible.includes(address.toLowerCase())) {
+    if (!isEligibleUnder(rule, score)) {
       return {
         success: false,
         score,
-        error: `Score ${score ?? "unknown"} is below minimum ${MIN_ETHOS_SCORE}`,
+        error: `Score ${score ?? "unknown"} is below minimum ${rule.addAtScore}`,
       };
     }
 
-    const policyId = CONTRACTS.POLICY_ID;
-    if (policyId === 0n) {
-      return { success: false, score, error: "Policy not configured" };
+    const { failed } = await applyWhitelistChanges([
+      { address: address.toLowerCase(), allowed: true, reason: "eligible", score: score ?? null, threshold: rule.addAtScore },
+    ], { policyId, policyType: rule.policyType });
+    if (failed.length > 0) {
+      return { success: false, score, error: failed[0].error };
     }
-
-    const walletClient = createTempoWalletClient(getAdminPrivateKey());
-    const publicClient = createTempoPublicClient();
-
-    const hash = await walletClient.writeContract({
-      address: CONTRACTS.TIP403_REGISTRY,
-      abi: TIP403_REGISTRY_ABI,
-      functionName: "modifyPolicyWhitelist",
-      args: [policyId, address.toLowerCase() as `0x${string}`, true],
-    });
-
-    await publicClient.waitForTransactionReceipt({ hash });
-    whitelistedAddresses.add(address.toLowerCase());
-
     return { success: true, score };
   } catch (error) {
     return { success: false, error: String(error) };
   }
 }
-
@@ -9,6 +9,117 @@ import "$std/dotenv/load.ts";
 import { start } from "$fresh/server.ts";
 import manifest from "./fresh.gen.ts";
 import config from "./fresh.config.ts";
+import { PROCESS_CLAIMS_MESSAGE, processClaimQueue, reconcilePendingClaims } from "./lib/claim-pipeline.ts";
+import { CONTRACTS } from "./lib/contracts.ts";
+import { runEthosDiscovery } from "./lib/ethos-discovery.ts";
+import { getKv } from "./lib/kv.ts";
+import { syncMintHistory } from "./lib/mint-history.ts";
+import { syncTransferIndex } from "./lib/transfer-limits.ts";
+import { getPolicyType } from "./lib/whitelist.ts";
+import { runScheduledWhitelistSync } from "./lib/whitelist-runs.ts";
+import { syncWhitelistMirror } from "./lib/whitelist-mirror.ts";
+import { getTierPolicies } from "./lib/whitelist-tiers.ts";
+
+// Run the claim worker, logging what it did - a failure waits for the next wake-up
+async function runClaimQueue() {
+  try {
+    const result = await processClaimQueue();
+    if (result.minted.length || result.failed.length) {
+      console.log(`Claim worker: ${result.minted.length} minted, ${result.confirmed.length} confirmed, ${result.failed.length} failed`);
+    }
+  } catch (error) {
+    console.error("Failed to process claim queue:", error);
+  }
+}
+
+// Mint queued claims as soon as /api/claim accepts them...
+const kv = await getKv();
+kv.listenQueue(async (message) => {
+  if (message?.kind === PROCESS_CLAIMS_MESSAGE.kind) {
+    await runClaimQueue();
+  }
+});
+
+// ...and sweep the queue every minute in case a wake-up was missed
+Deno.cron("process claim queue", "* * * * *", runClaimQueue);
+
+// Finalize or roll back claims interrupted between broadcast and confirmation
+Deno.cron("reconcile pending claims", "*/2 * * * *", async () => {
+  try {
+    const result = await reconcilePendingClaims();
+    if (result.confirmed.length || result.failed.length || result.errors.length) {
+      console.log(
+        `Reconciled claims: ${result.confirmed.length} confirmed, ${result.failed.length} failed, ${result.errors.length} errors`
+      );
+    }
+  } catch (error) {
+    console.error("Failed to reconcile pending claims:", error);
+  }
+});
+
+// Keep the mint index close to the chain head so claim checks stay fast
+Deno.cron("index ethosUSD mints", "* * * * *", async () => {
+  try {
+    await syncMintHistory();
+  } catch (error) {
+    console.error("Failed to index mints:", error);
+  }
+});
+
+// Keep the transfer index current so tier limits count every send
+Deno.cron("index ethosUSD transfers", "* * * * *", async () => {
+  try {
+    await syncTransferIndex();
+  } catch (error) {
+    console.error("Failed to index transfers:", error);
+  }
+});
+
+// Mirror policy membership (the main policy and the tier policies) from
+// WhitelistUpdated and BlacklistUpdated events so reads don't need RPC
+Deno.cron("mirror whitelist events", "* * * * *", async () => {
+  try {
+    await syncWhitelistMirror();
+    for (const tier of getTierPolicies()) {
+      await syncWhitelistMirror(tier.policyId);
+    }
+  } catch (error) {
+    console.error("Failed to mirror whitelist events:", error);
+  }
+});
+
+// Rebuild the candidate set the whitelist sync checks from the Ethos profiles
+// (ETHOS_DISCOVERY_SCHEDULE is a cron expression, or "off")
+const discoverySchedule = Deno.env.get("ETHOS_DISCOVERY_SCHEDULE") || "0 3 * * *";
+if (discoverySchedule !== "off") {
+  Deno.cron("discover ethos candidates", discoverySchedule, async () => {
+    try {
+      const policyType = CONTRACTS.POLICY_ID === 0n ? "whitelist" : await getPolicyType(CONTRACTS.POLICY_ID);
+      const outcome = await runEthosDiscovery({ policyType });
+      if (outcome?.changed) {
+        console.log(`Ethos discovery: ${outcome.set.addresses} candidate addresses from ${outcome.set.profiles} profiles`);
+      }
+    } catch (error) {
+      console.error("Ethos discovery failed:", error);
+    }
+  });
+}
+
+// Sync the whitelist with Ethos scores in the background, a slice of the
+// candidate list at a time (WHITELIST_SYNC_SCHEDULE is a cron expression, or "off")
+const whitelistSchedule = Deno.env.get("WHITELIST_SYNC_SCHEDULE") || "*/15 * * * *";
+if (whitelistSchedule !== "off") {
+  Deno.cron("sync whitelist", whitelistSchedule, async () => {
+    try {
+      const run = await runScheduledWhitelistSync();
+      if (run && (run.added.length || run.removed.length || run.status !== "completed")) {
+        console.log(`Whitelist sync ${run.status}: ${run.added.length} added, ${run.removed.length} removed, ${run.errors.length} errors`);
+      }
+    } catch (error) {
+      console.error("Scheduled whitelist sync failed:", error);
+    }
+  });
+}
 
 await start(manifest, config);
 
@@ -0,0 +1,19 @@
+import Header from "../../islands/Header.tsx";
+import AdminClaims from "../../islands/AdminClaims.tsx";
+
+// Claims dashboard - the page itself is public, all data comes from the
+// bearer-key protected /api/admin/claims API
+export default function AdminClaimsPage() {
+  return (
+    <div class="min-h-screen flex flex-col">
+      <Header currentPath="/admin/claims" />
+
+      <main class="flex-1">
+        <div class="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <h2 class="text-2xl font-bold text-white mb-6">Claims</h2>
+          <AdminClaims />
+        </div>
+      </main>
+    </div>
+  );
+}
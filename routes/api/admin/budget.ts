@@ -0,0 +1,48 @@
+import { Handlers } from "$fresh/server.ts";
+import { requireApiKey } from "../../../lib/auth.ts";
+import { getIssuanceBudget } from "../../../lib/claims.ts";
+import { formatTokenAmount } from "../../../lib/tempo.ts";
+
+// Token units as a string, with a formatted copy for display
+function serializeAmount(amount: bigint) {
+  return { amount: amount.toString(), formatted: formatTokenAmount(amount) };
+}
+
+function serializeAmounts(amounts: Record<string, bigint | undefined>) {
+  return Object.fromEntries(
+    Object.entries(amounts)
+      .filter((entry): entry is [string, bigint] => entry[1] !== undefined)
+      .map(([name, amount]) => [name, serializeAmount(amount)])
+  );
+}
+
+export const handler: Handlers = {
+  // GET /api/admin/budget - issuance limits and how much of them is used
+  async GET(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    try {
+      const budget = await getIssuanceBudget();
+
+      return new Response(JSON.stringify({
+        limits: serializeAmounts({ ...budget.limits }),
+        usage: serializeAmounts({ ...budget.usage }),
+        remaining: serializeAmounts(budget.remaining),
+        totalClaimed: serializeAmount(budget.totalClaimed),
+        heldForReview: budget.heldForReview,
+        heldAmount: serializeAmount(budget.heldAmount),
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: String(error) }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+};
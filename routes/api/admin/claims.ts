@@ -0,0 +1,203 @@
+import { Handlers } from "$fresh/server.ts";
+import { requireApiKey } from "../../../lib/auth.ts";
+import {
+  claimsToCsv,
+  filterClaims,
+  getAllClaims,
+  getTotalClaimed,
+  summarizeClaims,
+  type ClaimFilter,
+  type ClaimRecord,
+} from "../../../lib/claims.ts";
+import { getClaimStore } from "../../../lib/claim-store.ts";
+
+const STATUSES = ["review", "reserved", "minted", "confirmed", "failed"];
+
+// Parse ?status=&from=&to=&minAmount=&maxAmount=&flagged=&address=
+// Dates are ISO strings; amounts are whole or decimal ethosUSD
+function parseFilter(url: URL): ClaimFilter | string {
+  const params = url.searchParams;
+  const filter: ClaimFilter = {};
+
+  const status = params.get("status");
+  if (status) {
+    const statuses = status.split(",");
+    if (statuses.some((s) => !STATUSES.includes(s))) {
+      return `status must be one of ${STATUSES.join(", ")}`;
+    }
+    filter.status = statuses as ClaimRecord["status"][];
+  }
+
+  for (const name of ["from", "to"] as const) {
+    const value = params.get(name);
+    if (value) {
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) {
+        return `${name} must be a date`;
+      }
+      // A bare date in "to" includes that whole day
+      filter[name] = name === "to" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 : time;
+    }
+  }
+
+  for (const name of ["minAmount", "maxAmount"] as const) {
+    const value = params.get(name);
+    if (value) {
+      if (!/^\d+(\.\d{1,6})?$/.test(value)) {
+        return `${name} must be an ethosUSD amount`;
+      }
+      const [whole, fraction = ""] = value.split(".");
+      filter[name] = BigInt(whole) * 1_000_000n + BigInt(fraction.padEnd(6, "0"));
+    }
+  }
+
+  const flagged = params.get("flagged");
+  if (flagged) {
+    filter.flagged = flagged === "true";
+  }
+
+  const address = params.get("address");
+  if (address) {
+    filter.address = address;
+  }
+
+  return filter;
+}
+
+// A non-negative whole-number query parameter, or the fallback if it's missing or malformed
+function parseCount(url: URL, name: string, fallback: number): number {
+  const value = parseInt(url.searchParams.get(name) ?? "", 10);
+  return Number.isFinite(value) ? Math.max(value, 0) : fallback;
+}
+
+// Admin view of a claim record (keeps the raw transaction out)
+function serializeClaim(claim: ClaimRecord) {
+  return {
+    id: claim.id,
+    status: claim.status,
+    accountId: claim.accountId,
+    profileId: claim.profileId,
+    recipient: claim.address,
+    requestedBy: claim.requestedBy,
+    amount: claim.amount.toString(),
+    xp: claim.xp,
+    xpTotal: claim.xpTotal,
+    policyVersion: claim.policyVersion,
+    txHash: claim.txHash,
+    nonce: claim.nonce,
+    error: claim.error,
+    reviewReason: claim.reviewReason,
+    flagged: claim.flagged ?? false,
+    notes: claim.notes ?? [],
+    timestamp: claim.timestamp,
+    updatedAt: claim.updatedAt,
+  };
+}
+
+export const handler: Handlers = {
+  // GET /api/admin/claims - filtered claims with totals (?format=csv to export)
+  async GET(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const url = new URL(req.url);
+    const filter = parseFilter(url);
+    if (typeof filter === "string") {
+      return new Response(JSON.stringify({ error: filter }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const claims = filterClaims(await getAllClaims(), filter);
+
+      if (url.searchParams.get("format") === "csv") {
+        return new Response(claimsToCsv(claims), {
+          status: 200,
+          headers: {
+            "Content-Type": "text/csv",
+            "Content-Disposition": `attachment; filename="claims-${new Date().toISOString().slice(0, 10)}.csv"`,
+          },
+        });
+      }
+
+      const summary = summarizeClaims(claims);
+      const limit = Math.min(parseCount(url, "limit", 100), 1000);
+      const offset = parseCount(url, "offset", 0);
+
+      return new Response(JSON.stringify({
+        totals: {
+          count: summary.count,
+          flagged: summary.flagged,
+          totalClaimed: summary.totalClaimed.toString(),
+          allTimeClaimed: (await getTotalClaimed()).toString(),
+          byStatus: Object.fromEntries(
+            Object.entries(summary.byStatus).map(([status, { count, amount }]) => [
+              status,
+              { count, amount: amount.toString() },
+            ])
+          ),
+        },
+        xpDistribution: summary.xpDistribution,
+        offset,
+        limit,
+        claims: claims.slice(offset, offset + limit).map(serializeClaim),
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: String(error) }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+
+  // POST /api/admin/claims - { claimId, flagged?, note? }
+  async POST(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    try {
+      const { claimId, flagged, note } = await req.json();
+
+      if (!claimId || (flagged === undefined && !note)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: "claimId and flagged or note are required",
+        }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const store = await getClaimStore();
+      const claim = await store.annotate(claimId, {
+        flagged: flagged === undefined ? undefined : Boolean(flagged),
+        note: note ? String(note).slice(0, 1000) : undefined,
+      });
+
+      return new Response(JSON.stringify({
+        success: true,
+        claim: serializeClaim(claim),
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: String(error),
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+};
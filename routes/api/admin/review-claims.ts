@@ -0,0 +1,92 @@
+import { Handlers } from "$fresh/server.ts";
+import { requireApiKey } from "../../../lib/auth.ts";
+import { getAllClaims } from "../../../lib/claims.ts";
+import { approveClaim, rejectClaim, revokeClaim } from "../../../lib/claim-pipeline.ts";
+
+export const handler: Handlers = {
+  // GET /api/admin/review-claims - claims held by the issuance limits
+  async GET(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    try {
+      const claims = (await getAllClaims())
+        .filter((claim) => claim.status === "review")
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+      return new Response(JSON.stringify({
+        count: claims.length,
+        claims: claims.map((claim) => ({
+          id: claim.id,
+          accountId: claim.accountId,
+          address: claim.address,
+          amount: claim.amount.toString(),
+          xp: claim.xp,
+          xpTotal: claim.xpTotal,
+          policyVersion: claim.policyVersion,
+          reviewReason: claim.reviewReason,
+          timestamp: claim.timestamp,
+        })),
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: String(error) }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+
+  // POST /api/admin/review-claims - { claimId, action: "approve" | "reject" | "revoke", reason? }
+  // approve and reject act on held claims; revoke also cancels a queued claim before it mints
+  async POST(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    try {
+      const { claimId, action, reason } = await req.json();
+
+      if (!claimId || !["approve", "reject", "revoke"].includes(action)) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: "claimId and action (approve, reject or revoke) are required",
+        }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      // Approving mints right away, under the admin's authority
+      const claim = action === "approve"
+        ? await approveClaim(claimId)
+        : action === "reject"
+        ? await rejectClaim(claimId, reason || "no reason given")
+        : await revokeClaim(claimId, reason || "no reason given");
+
+      return new Response(JSON.stringify({
+        success: true,
+        claimId: claim.id,
+        status: claim.status,
+        txHash: claim.txHash,
+        error: claim.error,
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: String(error),
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+};
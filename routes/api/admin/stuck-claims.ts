@@ -0,0 +1,68 @@
+import { Handlers } from "$fresh/server.ts";
+import { requireApiKey } from "../../../lib/auth.ts";
+import { getStuckClaims, reconcilePendingClaims } from "../../../lib/claim-pipeline.ts";
+
+export const handler: Handlers = {
+  // GET /api/admin/stuck-claims - claims stuck in reserved/minted
+  async GET(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    try {
+      const claims = await getStuckClaims();
+
+      return new Response(JSON.stringify({
+        count: claims.length,
+        claims: claims.map((claim) => ({
+          id: claim.id,
+          address: claim.address,
+          status: claim.status,
+          amount: claim.amount.toString(),
+          xp: claim.xp,
+          txHash: claim.txHash,
+          nonce: claim.nonce,
+          timestamp: claim.timestamp,
+          updatedAt: claim.updatedAt,
+        })),
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: String(error) }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+
+  // POST /api/admin/stuck-claims - run the reconciler now
+  async POST(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    try {
+      const result = await reconcilePendingClaims();
+
+      return new Response(JSON.stringify({
+        success: true,
+        ...result,
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: String(error),
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+};
@@ -0,0 +1,118 @@
+import { Handlers } from "$fresh/server.ts";
+import { requireApiKey } from "../../../lib/auth.ts";
+import {
+  listWhitelistAudit,
+  whitelistAuditToCsv,
+  whitelistAuditToJsonl,
+  type WhitelistAuditFilter,
+} from "../../../lib/whitelist-audit.ts";
+
+const ACTIONS = ["add", "remove"];
+const TRIGGERS = ["cron", "api", "script", "manual"];
+
+// Parse ?address=&action=&trigger=&from=&to=
+// Dates are ISO strings
+function parseFilter(url: URL): WhitelistAuditFilter | string {
+  const params = url.searchParams;
+  const filter: WhitelistAuditFilter = {};
+
+  const action = params.get("action");
+  if (action) {
+    if (!ACTIONS.includes(action)) {
+      return `action must be one of ${ACTIONS.join(", ")}`;
+    }
+    filter.action = action as WhitelistAuditFilter["action"];
+  }
+
+  const trigger = params.get("trigger");
+  if (trigger) {
+    if (!TRIGGERS.includes(trigger)) {
+      return `trigger must be one of ${TRIGGERS.join(", ")}`;
+    }
+    filter.trigger = trigger as WhitelistAuditFilter["trigger"];
+  }
+
+  for (const name of ["from", "to"] as const) {
+    const value = params.get(name);
+    if (value) {
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) {
+        return `${name} must be a date`;
+      }
+      // A bare date in "to" includes that whole day
+      filter[name] = name === "to" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+    }
+  }
+
+  const address = params.get("address");
+  if (address) {
+    filter.address = address;
+  }
+
+  return filter;
+}
+
+export const handler: Handlers = {
+  // GET /api/admin/whitelist-audit - whitelist change history, newest first
+  // (?format=csv or ?format=jsonl exports every match, oldest first)
+  async GET(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const url = new URL(req.url);
+    const filter = parseFilter(url);
+    if (typeof filter === "string") {
+      return new Response(JSON.stringify({ error: filter }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const entries = await listWhitelistAudit(filter);
+      const format = url.searchParams.get("format");
+      const date = new Date().toISOString().slice(0, 10);
+
+      if (format === "csv") {
+        return new Response(whitelistAuditToCsv(entries), {
+          status: 200,
+          headers: {
+            "Content-Type": "text/csv",
+            "Content-Disposition": `attachment; filename="whitelist-audit-${date}.csv"`,
+          },
+        });
+      }
+
+      if (format === "jsonl") {
+        return new Response(whitelistAuditToJsonl(entries), {
+          status: 200,
+          headers: {
+            "Content-Type": "application/x-ndjson",
+            "Content-Disposition": `attachment; filename="whitelist-audit-${date}.jsonl"`,
+          },
+        });
+      }
+
+      const limit = Math.min(parseInt(url.searchParams.get("limit") || "100"), 1000);
+      const offset = parseInt(url.searchParams.get("offset") || "0");
+      const newestFirst = entries.reverse();
+
+      return new Response(JSON.stringify({
+        total: newestFirst.length,
+        offset,
+        limit,
+        entries: newestFirst.slice(offset, offset + limit),
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: String(error) }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+};
@@ -0,0 +1,67 @@
+import { Handlers } from "$fresh/server.ts";
+import { requireApiKey } from "../../../lib/auth.ts";
+import { CONTRACTS } from "../../../lib/contracts.ts";
+import { listCandidates } from "../../../lib/ethos-discovery.ts";
+import { parseWhitelistCsv } from "../../../lib/whitelist.ts";
+import { diffWhitelist } from "../../../lib/whitelist-export.ts";
+
+export const handler: Handlers = {
+  // POST /api/admin/whitelist-diff?policyId= - compare a policy's members with a list.
+  // The body is a CSV (Content-Type: text/csv) or { addresses }; with no body,
+  // the discovered Ethos candidate set is used.
+  async POST(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const policyIdParam = new URL(req.url).searchParams.get("policyId");
+    if (policyIdParam && !/^\d+$/.test(policyIdParam)) {
+      return new Response(JSON.stringify({ error: "policyId must be a number" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const policyId = policyIdParam ? BigInt(policyIdParam) : CONTRACTS.POLICY_ID;
+    if (policyId === 0n) {
+      return new Response(JSON.stringify({ error: "ETHOS_POLICY_ID not configured" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const body = await req.text();
+      let addresses: string[];
+      let source: string;
+      if (!body.trim()) {
+        addresses = (await listCandidates()).map((candidate) => candidate.address);
+        source = "candidates";
+      } else if (req.headers.get("Content-Type")?.includes("text/csv")) {
+        addresses = parseWhitelistCsv(body).entries.map((entry) => entry.address);
+        source = "csv";
+      } else {
+        const parsed = JSON.parse(body);
+        if (!Array.isArray(parsed.addresses)) {
+          return new Response(JSON.stringify({ error: "Body must be a CSV or { addresses }" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        addresses = parsed.addresses.map(String);
+        source = "body";
+      }
+
+      const diff = await diffWhitelist(policyId, addresses);
+      return new Response(JSON.stringify({ source, ...diff }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: String(error) }), {
+        status: error instanceof SyntaxError ? 400 : 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+};
@@ -0,0 +1,62 @@
+import { Handlers } from "$fresh/server.ts";
+import { requireApiKey } from "../../../lib/auth.ts";
+import { CONTRACTS } from "../../../lib/contracts.ts";
+import { exportWhitelist, whitelistExportToCsv } from "../../../lib/whitelist-export.ts";
+
+export const handler: Handlers = {
+  // GET /api/admin/whitelist-export - current policy members with Ethos scores
+  // ?policyId= (default ETHOS_POLICY_ID), ?includeRemoved=true, ?scores=false, ?format=csv
+  async GET(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const params = new URL(req.url).searchParams;
+    const policyIdParam = params.get("policyId");
+    if (policyIdParam && !/^\d+$/.test(policyIdParam)) {
+      return new Response(JSON.stringify({ error: "policyId must be a number" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const policyId = policyIdParam ? BigInt(policyIdParam) : CONTRACTS.POLICY_ID;
+    if (policyId === 0n) {
+      return new Response(JSON.stringify({ error: "ETHOS_POLICY_ID not configured" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const rows = await exportWhitelist(policyId, {
+        includeRemoved: params.get("includeRemoved") === "true",
+        scores: params.get("scores") !== "false",
+      });
+
+      if (params.get("format") === "csv") {
+        return new Response(whitelistExportToCsv(rows), {
+          status: 200,
+          headers: {
+            "Content-Type": "text/csv",
+            "Content-Disposition": `attachment; filename="whitelist-${policyId}-${new Date().toISOString().slice(0, 10)}.csv"`,
+          },
+        });
+      }
+
+      return new Response(JSON.stringify({
+        policyId: policyId.toString(),
+        count: rows.filter((row) => row.allowed).length,
+        members: rows,
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: String(error) }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+};
@@ -0,0 +1,95 @@
+import { Handlers } from "$fresh/server.ts";
+import { requireApiKey } from "../../../lib/auth.ts";
+import {
+  listWhitelistOverrides,
+  removeWhitelistOverride,
+  setWhitelistOverride,
+  WhitelistOverrideError,
+} from "../../../lib/whitelist-overrides.ts";
+
+// Overrides take effect on the next sync; POST /api/sync-whitelist with
+// { addresses: [address] } applies one right away
+export const handler: Handlers = {
+  // GET /api/admin/whitelist-overrides - active overrides
+  async GET(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    try {
+      const overrides = await listWhitelistOverrides();
+      return new Response(JSON.stringify({ overrides }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: String(error) }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+
+  // POST /api/admin/whitelist-overrides - { address, mode: "allow" | "deny", note, expiresAt? }
+  // The X-Operator header is recorded as the override's author (default "api")
+  async POST(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    try {
+      const { address, mode, note, expiresAt } = await req.json();
+      const override = await setWhitelistOverride({
+        address: String(address ?? ""),
+        mode,
+        note: String(note ?? ""),
+        expiresAt: expiresAt ?? null,
+        createdBy: req.headers.get("X-Operator") || "api",
+      });
+
+      return new Response(JSON.stringify({ success: true, override }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: String(error),
+      }), {
+        status: error instanceof WhitelistOverrideError || error instanceof SyntaxError ? 400 : 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+
+  // DELETE /api/admin/whitelist-overrides?address=0x... - back to score-based syncing
+  async DELETE(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const address = new URL(req.url).searchParams.get("address");
+    if (!address) {
+      return new Response(JSON.stringify({ success: false, error: "address is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const removed = await removeWhitelistOverride(address);
+      return new Response(JSON.stringify({ success: removed, ...(removed ? {} : { error: "No override for address" }) }), {
+        status: removed ? 200 : 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ success: false, error: String(error) }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+};
@@ -0,0 +1,46 @@
+import { Handlers } from "$fresh/server.ts";
+import { getClaimTypedData, issueClaimNonce } from "../../lib/claim-signature.ts";
+
+export const handler: Handlers = {
+  // GET /api/claim-nonce?address=0x...&recipient=0x... - issue a single-use nonce and the typed data to sign
+  // recipient defaults to address; it can be any address linked to the same Ethos profile
+  async GET(req) {
+    const url = new URL(req.url);
+    const address = url.searchParams.get("address");
+    const recipient = url.searchParams.get("recipient") || address;
+
+    if (!address) {
+      return new Response(
+        JSON.stringify({ error: "Address parameter required" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Validate address format
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address) || !/^0x[a-fA-F0-9]{40}$/.test(recipient!)) {
+      return new Response(
+        JSON.stringify({ error: "Invalid address format" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    try {
+      const { nonce, issuedAt, expiresAt } = await issueClaimNonce(address, recipient!);
+
+      return new Response(
+        JSON.stringify({
+          nonce,
+          expiresAt,
+          typedData: getClaimTypedData(address, recipient!, nonce, issuedAt),
+        }),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    } catch (error) {
+      console.error("Error issuing claim nonce:", error);
+      return new Response(
+        JSON.stringify({ error: "Failed to issue claim nonce" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  },
+};
@@ -1,5 +1,37 @@
 import { Handlers } from "$fresh/server.ts";
-import { getClaimableAmount } from "../../lib/claims.ts";
+import { getClaimableAmount, type ClaimRecord, type MintHistory } from "../../lib/claims.ts";
+
+// Public view of a claim record
+function serializeClaim(claim: ClaimRecord) {
+  return {
+    id: claim.id,
+    status: claim.status,
+    recipient: claim.address,
+    txHash: claim.txHash,
+    timestamp: claim.timestamp,
+    amount: claim.amount.toString(),
+    xp: claim.xp,
+    xpTotal: claim.xpTotal,
+    policyVersion: claim.policyVersion,
+  };
+}
+
+// Public view of the on-chain mints to the user's addresses
+function serializeMintHistory(mintHistory: MintHistory) {
+  return {
+    mints: mintHistory.mints.map((mint) => ({
+      to: mint.to,
+      amount: mint.amount.toString(),
+      txHash: mint.txHash,
+      blockNumber: mint.blockNumber,
+      claimId: mint.claimId,
+    })),
+    totalMinted: mintHistory.totalMinted.toString(),
+    totalMintedFormatted: (Number(mintHistory.totalMinted) / 1_000_000).toFixed(2),
+    unrecorded: mintHistory.unrecorded,
+    indexComplete: mintHistory.indexComplete,
+  };
+}
 
 export const handler: Handlers = {
   async GET(req) {
@@ -31,15 +63,18 @@ export const handler: Handlers = {
           amount: result.amount.toString(),
           amountFormatted: (Number(result.amount) / 1_000_000).toFixed(2),
           xp: result.xp,
+          xpTotal: result.xpTotal,
+          paidXp: result.paidXp,
+          paidAmount: result.paidAmount.toString(),
+          paidAmountFormatted: (Number(result.paidAmount) / 1_000_000).toFixed(2),
+          policyVersion: result.policyVersion,
           score: result.score,
+          profileId: result.profileId,
+          addresses: result.addresses,
           alreadyClaimed: result.alreadyClaimed,
-          claimRecord: result.claimRecord
-            ? {
-                txHash: result.claimRecord.txHash,
-                timestamp: result.claimRecord.timestamp,
-                amount: result.claimRecord.amount.toString(),
-              }
-            : undefined,
+          claimRecord: result.claimRecord ? serializeClaim(result.claimRecord) : undefined,
+          history: result.history.map(serializeClaim),
+          mintHistory: serializeMintHistory(result.mintHistory),
           error: result.error,
         }),
         { headers: { "Content-Type": "application/json" } }
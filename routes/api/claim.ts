@@ -1,23 +1,14 @@
 import "$std/dotenv/load.ts";
 import { Handlers } from "$fresh/server.ts";
-import { verifyMessage } from "viem";
-import { getClaimableAmount, recordClaim } from "../../lib/claims.ts";
-import { CONTRACTS, TIP20_ABI } from "../../lib/contracts.ts";
-import { createTempoPublicClient, createTempoWalletClient, getAdminPrivateKey, formatTokenAmount } from "../../lib/tempo.ts";
-
-// Generate the same claim message format as the client
-function getClaimMessage(address: string, timestamp: number): string {
-  return `I am claiming my $ethosUSD tokens for address ${address.toLowerCase()} at timestamp ${timestamp}`;
-}
-
-// Maximum age of a valid signature (5 minutes)
-const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000;
+import { getClaimableAmount, getClaimProgress } from "../../lib/claims.ts";
+import { processClaim } from "../../lib/claim-pipeline.ts";
+import { verifyClaimSignature } from "../../lib/claim-signature.ts";
 
 export const handler: Handlers = {
   async POST(req) {
     try {
       const body = await req.json();
-      const { address: rawAddress, signature, timestamp } = body;
+      const { address: rawAddress, signature, nonce } = body;
 
       if (!rawAddress) {
         return new Response(
@@ -26,7 +17,7 @@ export const handler: Handlers = {
         );
       }
 
-      if (!signature || !timestamp) {
+      if (!signature || !nonce) {
         return new Response(
           JSON.stringify({ success: false, error: "Signature verification required" }),
           { status: 400, headers: { "Content-Type": "application/json" } }
@@ -43,50 +34,25 @@ export const handler: Handlers = {
         );
       }
 
-      // Validate timestamp is not too old
-      const now = Date.now();
-      if (typeof timestamp !== "number" || timestamp > now || now - timestamp > MAX_SIGNATURE_AGE_MS) {
-        return new Response(
-          JSON.stringify({ success: false, error: "Signature expired. Please try again." }),
-          { status: 400, headers: { "Content-Type": "application/json" } }
-        );
-      }
-
-      // Verify the signature
-      const message = getClaimMessage(address, timestamp);
-      let isValidSignature = false;
-      
-      try {
-        isValidSignature = await verifyMessage({
-          address: address,
-          message: message,
-          signature: signature as `0x${string}`,
-        });
-      } catch (err) {
-        console.error("Signature verification error:", err);
-        return new Response(
-          JSON.stringify({ success: false, error: "Invalid signature format" }),
-          { status: 400, headers: { "Content-Type": "application/json" } }
-        );
-      }
+      // Verify the EIP-712 signature and consume the nonce
+      const verification = await verifyClaimSignature(address, nonce, signature as `0x${string}`);
 
-      if (!isValidSignature) {
+      if (!verification.valid) {
         return new Response(
-          JSON.stringify({ success: false, error: "Invalid signature. Please sign with the correct wallet." }),
-          { status: 403, headers: { "Content-Type": "application/json" } }
+          JSON.stringify({ success: false, error: verification.error }),
+          { status: verification.status, headers: { "Content-Type": "application/json" } }
         );
       }
 
-      // Check claim eligibility
+      // Check claim eligibility (resolved by Ethos profile)
       const claimStatus = await getClaimableAmount(address);
 
       if (!claimStatus.canClaim) {
         return new Response(
           JSON.stringify({
             success: false,
-            error: claimStatus.alreadyClaimed
-              ? "You have already claimed your $ethosUSD"
-              : claimStatus.error || "Not eligible to claim",
+            error: claimStatus.error ||
+              (claimStatus.alreadyClaimed ? "You have already claimed your $ethosUSD" : "Not eligible to claim"),
             alreadyClaimed: claimStatus.alreadyClaimed,
             claimRecord: claimStatus.claimRecord
               ? {
@@ -99,48 +65,40 @@ export const handler: Handlers = {
         );
       }
 
-      console.log(`Processing claim for ${address}: ${formatTokenAmount(claimStatus.amount)} $ethosUSD (${claimStatus.xp} XP)`);
-
-      // Initialize clients for minting
-      const privateKey = getAdminPrivateKey();
-      const publicClient = createTempoPublicClient();
-      const walletClient = createTempoWalletClient(privateKey);
+      // The mint can go to any address linked to the same Ethos profile
+      const recipient = verification.recipient;
+      if (!claimStatus.addresses.includes(recipient)) {
+        return new Response(
+          JSON.stringify({ success: false, error: "Recipient is not linked to your Ethos profile" }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
 
-      // Mint tokens to the user using direct contract call
-      const mintHash = await walletClient.writeContract({
-        address: CONTRACTS.ETHOS_USD_TOKEN,
-        abi: TIP20_ABI,
-        functionName: "mint",
-        args: [address, claimStatus.amount],
+      // Reserve, persist and mint - the claim is recoverable once its hash is recorded
+      const claim = await processClaim({
+        accountId: claimStatus.accountId,
+        profileId: claimStatus.profileId,
+        address: recipient,
+        requestedBy: address,
+        amount: claimStatus.amount,
+        xp: claimStatus.xp,
+        xpTotal: claimStatus.xpTotal,
+        policyVersion: claimStatus.policyVersion,
+        legacyAccountIds: claimStatus.legacyAccountIds,
+        budgetCap: claimStatus.budgetCap,
       });
 
-      console.log(`Mint transaction sent: ${mintHash}`);
-
-      // Wait for confirmation
-      const receipt = await publicClient.waitForTransactionReceipt({ hash: mintHash });
-
-      if (receipt.status !== "success") {
+      if (!claim) {
         return new Response(
-          JSON.stringify({ success: false, error: "Mint transaction failed" }),
-          { status: 500, headers: { "Content-Type": "application/json" } }
+          JSON.stringify({ success: false, error: "A claim for this Ethos profile is already being processed. Please refresh and try again." }),
+          { status: 409, headers: { "Content-Type": "application/json" } }
         );
       }
 
-      console.log(`Mint confirmed in block ${receipt.blockNumber}`);
-
-      // Record the claim
-      await recordClaim(address, claimStatus.amount, claimStatus.xp, mintHash);
-
+      // Queued (or held for review) - poll /api/claim/:id for progress
       return new Response(
-        JSON.stringify({
-          success: true,
-          txHash: mintHash,
-          amount: claimStatus.amount.toString(),
-          amountFormatted: formatTokenAmount(claimStatus.amount),
-          xp: claimStatus.xp,
-          explorerUrl: `https://explore.tempo.xyz/receipt/${mintHash}`,
-        }),
-        { headers: { "Content-Type": "application/json" } }
+        JSON.stringify({ success: true, pending: true, ...getClaimProgress(claim) }),
+        { status: 202, headers: { "Content-Type": "application/json" } }
       );
     } catch (error) {
       console.error("Claim error:", error);
@@ -0,0 +1,40 @@
+import { Handlers } from "$fresh/server.ts";
+import { getClaimProgress } from "../../../lib/claims.ts";
+import { getClaimStore } from "../../../lib/claim-store.ts";
+
+export const handler: Handlers = {
+  // GET /api/claim/:id - progress of a queued claim
+  async GET(_req, ctx) {
+    const { id } = ctx.params;
+
+    if (!/^[0-9a-f-]{36}$/i.test(id)) {
+      return new Response(
+        JSON.stringify({ error: "Invalid claim id" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    try {
+      const store = await getClaimStore();
+      const claim = await store.get(id);
+
+      if (!claim) {
+        return new Response(
+          JSON.stringify({ error: "Claim not found" }),
+          { status: 404, headers: { "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify(getClaimProgress(claim)),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    } catch (error) {
+      console.error("Error fetching claim:", error);
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch claim" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  },
+};
@@ -1,6 +1,8 @@
 import { Handlers } from "$fresh/server.ts";
 import { getScoreByAddress, getScoresByAddresses, getScoreLevel, MIN_ETHOS_SCORE } from "../../lib/ethos.ts";
-import { checkAuthorization } from "../../lib/whitelist.ts";
+import { isWhitelisted } from "../../lib/whitelist.ts";
+import { formatTokenAmount } from "../../lib/tempo.ts";
+import { getAddressTier } from "../../lib/whitelist-tiers.ts";
 
 const ETHOS_API_BASE = "https://api.ethos.network";
 const ETHOS_CLIENT_ID = "ethosUSD@1.0.0";
@@ -49,7 +51,7 @@ async function getAllAddressesForUser(address: string): Promise<string[]> {
 // Check if ANY of the user's addresses is whitelisted, return which one
 async function findWhitelistedAddress(addresses: string[]): Promise<string | null> {
   for (const addr of addresses) {
-    const isAuth = await checkAuthorization(addr);
+    const isAuth = await isWhitelisted(addr);
     if (isAuth) return addr;
   }
   return null;
@@ -75,12 +77,22 @@ export const handler: Handlers = {
       const allAddresses = await getAllAddressesForUser(address);
       
       // Check if the queried address is authorized
-      const isOnChainAuthorized = await checkAuthorization(address);
+      const isOnChainAuthorized = await isWhitelisted(address);
       
       // Find any whitelisted address for this user
       const whitelistedAddress = await findWhitelistedAddress(allAddresses);
       const hasAnyWhitelistedAddress = whitelistedAddress !== null;
 
+      // Tier from the tier policies, for the address the user transfers from
+      const tier = await getAddressTier(whitelistedAddress ?? address).catch((error) => {
+        console.error("Error reading tier policies:", error);
+        return null;
+      });
+      const tierFields = {
+        tier: tier?.tier ?? null,
+        tierDailyLimit: tier?.dailyLimit ? formatTokenAmount(tier.dailyLimit) : null,
+      };
+
       if (!scoreData) {
         return new Response(JSON.stringify({
           address,
@@ -93,6 +105,7 @@ export const handler: Handlers = {
           whitelistedAddress,
           allAddresses,
           minScore: MIN_ETHOS_SCORE,
+          ...tierFields,
         }), {
           status: 200,
           headers: { "Content-Type": "application/json" },
@@ -114,6 +127,7 @@ export const handler: Handlers = {
         whitelistedAddress,
         allAddresses,
         minScore: MIN_ETHOS_SCORE,
+        ...tierFields,
         reviews: scoreData.reviews,
         vouches: scoreData.vouches,
       }), {
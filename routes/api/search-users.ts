@@ -1,5 +1,5 @@
 import { Handlers } from "$fresh/server.ts";
-import { checkAuthorization } from "../../lib/whitelist.ts";
+import { isWhitelisted } from "../../lib/whitelist.ts";
 
 const ETHOS_API_BASE = "https://api.ethos.network";
 const ETHOS_CLIENT_ID = "ethosUSD@1.0.0";
@@ -57,7 +57,7 @@ async function getAllAddressesForUser(primaryAddress: string): Promise<string[]>
 
 async function findWhitelistedAddress(addresses: string[]): Promise<string | null> {
   for (const addr of addresses) {
-    const isAuth = await checkAuthorization(addr);
+    const isAuth = await isWhitelisted(addr);
     if (isAuth) return addr;
   }
   return null;
@@ -1,41 +1,114 @@
 import { Handlers } from "$fresh/server.ts";
-import { syncWhitelist } from "../../lib/whitelist.ts";
+import {
+  applyWhitelistPlan,
+  parseWhitelistPlan,
+  syncWhitelist,
+  WhitelistPlanError,
+  type WhitelistSyncResult,
+} from "../../lib/whitelist.ts";
+import { requireApiKey } from "../../lib/auth.ts";
+import { runWhitelistSync } from "../../lib/whitelist-runs.ts";
 
+// POST /api/sync-whitelist
+//   { addresses? }  - sync now (?dryRun=true returns the plan without writing)
+//   { plan }        - apply a plan saved from an earlier dry run
+// ?force=true applies a sync or plan even if the removal circuit breaker tripped
+// Syncs that write share a lock with the scheduled sync and show up in /api/sync-whitelist/runs.
+// Their changes are audited under the X-Operator header (default "api").
 export const handler: Handlers = {
   async POST(req) {
     // Optional: Add API key protection
-    const authHeader = req.headers.get("Authorization");
-    const apiKey = Deno.env.get("SYNC_API_KEY");
-    
-    if (apiKey && authHeader !== `Bearer ${apiKey}`) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
-        headers: { "Content-Type": "application/json" },
-      });
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
     }
 
     try {
-      // Parse optional addresses from body
+      const params = new URL(req.url).searchParams;
+      const dryRun = params.get("dryRun") === "true";
+      const force = params.get("force") === "true";
+
+      // Parse optional addresses or plan from body
       let addressesToCheck: string[] | undefined;
-      
+      let savedPlan: unknown;
+
       try {
         const body = await req.json();
         if (Array.isArray(body.addresses)) {
           addressesToCheck = body.addresses;
         }
+        savedPlan = body.plan;
       } catch {
-        // No body or invalid JSON - use seed addresses
+        // No body or invalid JSON - use the candidate set
+      }
+
+      let result: WhitelistSyncResult;
+      let runId: string | undefined;
+      if (dryRun) {
+        if (savedPlan !== undefined) {
+          return new Response(JSON.stringify({ success: true, dryRun, plan: parseWhitelistPlan(savedPlan) }), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        result = await syncWhitelist(addressesToCheck, { dryRun });
+      } else {
+        const plan = savedPlan === undefined ? null : parseWhitelistPlan(savedPlan);
+        const outcome = await runWhitelistSync(
+          "api",
+          req.headers.get("X-Operator") || "api",
+          (options) =>
+            plan ? applyWhitelistPlan(plan, { force, ...options }) : syncWhitelist(addressesToCheck, { force, ...options })
+        );
+        if (!outcome) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: "A whitelist sync is already running",
+          }), {
+            status: 409,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        result = outcome.result;
+        runId = outcome.run.id;
+      }
+
+      if (dryRun) {
+        return new Response(JSON.stringify({
+          success: true,
+          dryRun,
+          plan: result.plan,
+          blocked: result.plan?.blocked ?? null,
+          errors: result.errors,
+        }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
       }
 
-      const result = await syncWhitelist(addressesToCheck);
+      if (result.plan?.blocked && !force) {
+        return new Response(JSON.stringify({
+          success: false,
+          blocked: result.plan.blocked,
+          plan: result.plan,
+          errors: result.errors,
+        }), {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
 
       return new Response(JSON.stringify({
         success: true,
+        runId,
         checked: result.checked,
         added: result.added.length,
         removed: result.removed.length,
         addedAddresses: result.added,
         removedAddresses: result.removed,
+        held: result.plan?.held.length ?? 0,
+        unknown: result.unknown.length,
+        unknownAddresses: result.unknown,
         errors: result.errors,
       }), {
         status: 200,
@@ -46,10 +119,9 @@ export const handler: Handlers = {
         success: false,
         error: String(error),
       }), {
-        status: 500,
+        status: error instanceof WhitelistPlanError ? 400 : 500,
         headers: { "Content-Type": "application/json" },
       });
     }
   },
 };
-
@@ -0,0 +1,31 @@
+import { Handlers } from "$fresh/server.ts";
+import { requireApiKey } from "../../../lib/auth.ts";
+import { listWhitelistSyncRuns } from "../../../lib/whitelist-runs.ts";
+
+export const handler: Handlers = {
+  // GET /api/sync-whitelist/runs - recent whitelist sync runs, newest first (?limit=)
+  async GET(req) {
+    const unauthorized = requireApiKey(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    try {
+      const limit = Math.min(parseInt(new URL(req.url).searchParams.get("limit") || "50"), 500);
+      const runs = await listWhitelistSyncRuns(limit);
+
+      return new Response(JSON.stringify({
+        running: runs.some((run) => run.status === "running"),
+        runs,
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: String(error) }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+};
@@ -0,0 +1,39 @@
+import { Handlers } from "$fresh/server.ts";
+import { formatTokenAmount } from "../../lib/tempo.ts";
+import { getTransferAllowance, TransferIndexError } from "../../lib/transfer-limits.ts";
+
+export const handler: Handlers = {
+  // GET /api/transfer-allowance?address= - the sender's tier and what's left of its daily limit
+  async GET(req) {
+    const address = new URL(req.url).searchParams.get("address");
+    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return new Response(JSON.stringify({ error: "Valid address parameter required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const allowance = await getTransferAllowance(address);
+      return new Response(JSON.stringify({
+        address: allowance.address,
+        tier: allowance.tier,
+        dailyLimit: allowance.dailyLimit?.toString() ?? null,
+        dailyLimitFormatted: allowance.dailyLimit === null ? null : formatTokenAmount(allowance.dailyLimit),
+        sentToday: allowance.sentToday.toString(),
+        remaining: allowance.remaining?.toString() ?? null,
+        remainingFormatted: allowance.remaining === null ? null : formatTokenAmount(allowance.remaining),
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      // An index that's behind is shown to the sender as is
+      const indexBehind = error instanceof TransferIndexError;
+      return new Response(JSON.stringify({ error: indexBehind ? error.message : String(error) }), {
+        status: indexBehind ? 503 : 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+};
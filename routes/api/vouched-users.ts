@@ -1,5 +1,5 @@
 import { Handlers } from "$fresh/server.ts";
-import { checkAuthorization } from "../../lib/whitelist.ts";
+import { isWhitelisted } from "../../lib/whitelist.ts";
 import { MIN_ETHOS_SCORE } from "../../lib/ethos.ts";
 
 const ETHOS_API_BASE = "https://api.ethos.network";
@@ -62,7 +62,7 @@ async function getAllAddressesForUser(primaryAddress: string): Promise<string[]>
 // Find whitelisted address from a list
 async function findWhitelistedAddress(addresses: string[]): Promise<string | null> {
   for (const addr of addresses) {
-    const isAuth = await checkAuthorization(addr);
+    const isAuth = await isWhitelisted(addr);
     if (isAuth) return addr;
   }
   return null;
@@ -0,0 +1,49 @@
+import { Handlers } from "$fresh/server.ts";
+import { CONTRACTS } from "../../lib/contracts.ts";
+import { getPolicyType } from "../../lib/whitelist.ts";
+import {
+  getWhitelistMember,
+  getWhitelistMirrorState,
+  isWhitelistMirrorCurrent,
+} from "../../lib/whitelist-mirror.ts";
+
+export const handler: Handlers = {
+  // GET /api/whitelist?address=0x... - policy membership from the event mirror (no RPC)
+  async GET(req) {
+    const address = new URL(req.url).searchParams.get("address");
+
+    if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return new Response(JSON.stringify({ error: "address parameter required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    try {
+      const [member, mirror] = await Promise.all([getWhitelistMember(address), getWhitelistMirrorState()]);
+      // An address no event mentions is on a blacklist's open default
+      const openByDefault = !member && CONTRACTS.POLICY_ID !== 0n &&
+        await getPolicyType(CONTRACTS.POLICY_ID) === "blacklist";
+
+      return new Response(JSON.stringify({
+        address: address.toLowerCase(),
+        whitelisted: member?.allowed ?? openByDefault,
+        member,
+        mirror: mirror && {
+          indexedToBlock: mirror.indexedToBlock,
+          latestBlock: mirror.latestBlock,
+          updatedAt: mirror.updatedAt,
+          current: isWhitelistMirrorCurrent(mirror),
+        },
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: String(error) }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+  },
+};
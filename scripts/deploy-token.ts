@@ -2,16 +2,21 @@
 /**
  * Deploy the $ethosUSD token and TIP-403 whitelist policy using tempo.ts SDK
  * 
- * Usage: deno task deploy:token
+ * Usage: deno task deploy:token [--blacklist]
+ * 
+ * With --blacklist the token is deployed under an empty blacklist policy
+ * instead: everyone can transfer until `deno task whitelist sync` restricts
+ * addresses scoring below BLACKLIST_BELOW_SCORE.
  * 
  * Required environment variables:
  * - ADMIN_PRIVATE_KEY: Private key for the admin account
  * 
  * This script will:
- * 1. Create a TIP-403 whitelist policy
- * 2. Create the $ethosUSD TIP-20 token using tempo.ts SDK
- * 3. Mint initial supply to the admin
- * 4. Set the token's transfer policy to our whitelist (AFTER minting)
+ * 1. Create a TIP-403 whitelist (or blacklist) policy
+ * 2. Add the admin to the whitelist (not needed on a blacklist)
+ * 3. Create the $ethosUSD TIP-20 token using tempo.ts SDK
+ * 4. Mint initial supply to the admin
+ * 5. Set the token's transfer policy to our policy (AFTER minting)
  */
 
 import "$std/dotenv/load.ts";
@@ -31,6 +36,7 @@ import { formatTokenAmount } from "../lib/tempo.ts";
 const TOKEN_NAME = "Ethos USD";
 const TOKEN_SYMBOL = "ethosUSD";
 const INITIAL_MINT_AMOUNT = BigInt(1_000_000) * BigInt(10 ** 6); // 1,000,000 tokens
+const BLACKLIST = Deno.args.includes("--blacklist");
 
 function getAdminPrivateKey(): `0x${string}` {
   const key = Deno.env.get("ADMIN_PRIVATE_KEY");
@@ -64,14 +70,14 @@ async function main() {
   const adminAddress = account.address;
   console.log(`\n📍 Admin Address: ${adminAddress}`);
 
-  // Step 1: Create TIP-403 Whitelist Policy
-  console.log("\n📋 Step 1: Creating TIP-403 whitelist policy...");
+  // Step 1: Create TIP-403 Policy
+  console.log(`\n📋 Step 1: Creating TIP-403 ${BLACKLIST ? "blacklist" : "whitelist"} policy...`);
   
   const createPolicyHash = await client.writeContract({
     address: CONTRACTS.TIP403_REGISTRY,
     abi: TIP403_REGISTRY_ABI,
     functionName: "createPolicy",
-    args: [adminAddress, POLICY_TYPE.WHITELIST],
+    args: [adminAddress, BLACKLIST ? POLICY_TYPE.BLACKLIST : POLICY_TYPE.WHITELIST],
   });
 
   console.log(`   Transaction: ${createPolicyHash}`);
@@ -90,18 +96,22 @@ async function main() {
 
   console.log(`   ✅ Policy created with ID: ${policyId}`);
 
-  // Step 2: Add admin to whitelist
-  console.log("\n📝 Step 2: Adding admin to whitelist...");
-  
-  const addAdminHash = await client.writeContract({
-    address: CONTRACTS.TIP403_REGISTRY,
-    abi: TIP403_REGISTRY_ABI,
-    functionName: "modifyPolicyWhitelist",
-    args: [policyId, adminAddress, true],
-  });
-
-  await client.waitForTransactionReceipt({ hash: addAdminHash });
-  console.log(`   ✅ Admin added to whitelist`);
+  // Step 2: Add admin to whitelist (a blacklist authorizes it already)
+  if (BLACKLIST) {
+    console.log("\n📝 Step 2: Skipped - the admin isn't restricted on a new blacklist");
+  } else {
+    console.log("\n📝 Step 2: Adding admin to whitelist...");
+
+    const addAdminHash = await client.writeContract({
+      address: CONTRACTS.TIP403_REGISTRY,
+      abi: TIP403_REGISTRY_ABI,
+      functionName: "modifyPolicyWhitelist",
+      args: [policyId, adminAddress, true],
+    });
+
+    await client.waitForTransactionReceipt({ hash: addAdminHash });
+    console.log(`   ✅ Admin added to whitelist`);
+  }
 
   // Step 3: Create the $ethosUSD Token using tempo.ts SDK
   console.log("\n🪙 Step 3: Creating the $ethosUSD token...");
@@ -184,7 +194,7 @@ async function main() {
   console.log("📊 Deployment Summary:");
   console.log(`   Token Address:   ${tokenAddress}`);
   console.log(`   Token Symbol:    ${TOKEN_SYMBOL}`);
-  console.log(`   Policy ID:       ${policyId}`);
+  console.log(`   Policy ID:       ${policyId} (${BLACKLIST ? "blacklist" : "whitelist"})`);
   console.log(`   Current Policy:  ${currentPolicyId}`);
   console.log(`   Admin Balance:   ${formatTokenAmount(balance)} ${TOKEN_SYMBOL}`);
 
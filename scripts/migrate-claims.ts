@@ -0,0 +1,73 @@
+#!/usr/bin/env -S deno run -A
+/**
+ * Import the claims recorded in data/claims.json (the file-based ledger the
+ * app used before the KV claim ledger) as confirmed claims
+ *
+ * Usage: deno task migrate:claims [file] [--dry-run]
+ *
+ * Each record becomes a confirmed claim in the address's account, crediting
+ * its XP and amount, so the address can only claim XP earned since. Records
+ * already imported are skipped, so the import is safe to run again.
+ */
+
+import "$std/dotenv/load.ts";
+import { parseArgs } from "$std/cli/parse_args.ts";
+import { getClaimStore, type ImportedClaim } from "../lib/claim-store.ts";
+
+// Record format of data/claims.json
+interface ClaimRecordJSON {
+  address: string;
+  amount: string; // Token units, as a string since BigInt can't be JSON serialized
+  xp: number;
+  txHash: string;
+  timestamp: number;
+}
+
+function parseRecord(record: ClaimRecordJSON, index: number): ImportedClaim {
+  if (
+    !/^0x[a-fA-F0-9]{40}$/.test(record.address) ||
+    !/^\d+$/.test(record.amount) ||
+    typeof record.xp !== "number" ||
+    !/^0x[a-fA-F0-9]{64}$/.test(record.txHash) ||
+    typeof record.timestamp !== "number"
+  ) {
+    throw new Error(`Record ${index} is not a valid claim: ${JSON.stringify(record)}`);
+  }
+  return {
+    address: record.address.toLowerCase(),
+    amount: BigInt(record.amount),
+    xp: record.xp,
+    txHash: record.txHash,
+    timestamp: record.timestamp,
+  };
+}
+
+async function main() {
+  const args = parseArgs(Deno.args, { boolean: ["dry-run"] });
+  const file = String(args._[0] ?? "./data/claims.json");
+
+  const records: ClaimRecordJSON[] = JSON.parse(await Deno.readTextFile(file));
+  const claims = records.map(parseRecord);
+  console.log(`Found ${claims.length} claims in ${file}`);
+
+  if (args["dry-run"]) {
+    for (const claim of claims) {
+      console.log(`  ${claim.address}  ${claim.xp} XP  ${claim.amount} units  ${claim.txHash}`);
+    }
+    return;
+  }
+
+  const store = await getClaimStore();
+  let imported = 0;
+  for (const claim of claims) {
+    if (await store.importConfirmed(claim)) {
+      imported++;
+    }
+  }
+  console.log(`Imported ${imported} claims (${claims.length - imported} already imported)`);
+}
+
+main().catch((error) => {
+  console.error("❌ Error:", error.message || error);
+  Deno.exit(1);
+});
@@ -0,0 +1,726 @@
+#!/usr/bin/env -S deno run -A
+/**
+ * Whitelist CLI - every whitelist operation behind one command
+ *
+ * Usage: deno task whitelist <command> [args] [flags]
+ *
+ * Commands:
+ *   create <csv>                     Create a new policy holding the CSV's addresses (and the admin)
+ *   add <csv|address>...             Add addresses to the policy (lift their restriction on a blacklist)
+ *   remove <csv|address>...          Remove addresses from the policy (restrict them on a blacklist)
+ *   discover                         Walk the Ethos profiles into the candidate set syncs check
+ *   sync [csv]                       Add/remove by Ethos score (the candidate set and members by default)
+ *   tiers [csv]                      Sync the tier policies (ETHOS_TIER_POLICY_IDS) by Ethos score level
+ *   diff [csv]                       Compare the policy's members with a CSV (or the candidate set)
+ *   status                           Policy, token, mirror, last sync and jobs
+ *   export                           Current members as CSV: address,score,allowed,addedAt,txHash
+ *   migrate-policy [csv]             Build a new policy from the CSV (or a copy of the current one),
+ *                                    verify and diff it, then point the token at it
+ *   override <list|allow|deny|clear> [address]
+ *
+ * Flags:
+ *   --policy-id <id>     Policy to work on (default ETHOS_POLICY_ID)
+ *   --concurrency <n>    Transactions in flight and parallel reads (default 50 and 20)
+ *   --dry-run            Show what would change without writing anything (discover: don't save the set)
+ *   --job <id>           Resume an interrupted add, remove or create job
+ *   --force              sync, tiers: apply even if the removal circuit breaker trips
+ *   --blacklist          create: a blacklist policy restricting the CSV's addresses instead
+ *   --out <file>         sync --dry-run: save the plan; export, discover: write the CSV to a file
+ *   --include-removed    export: also list removed addresses (allowed=false)
+ *   --skip-scores        export: don't look up Ethos scores
+ *   --apply <file>       sync: apply a saved plan
+ *   --to <policy-id>     migrate-policy: verify and cut over to an existing policy instead of creating one
+ *   --allow-removals     migrate-policy: cut over even though some current members aren't on the new policy
+ *   --rollback           migrate-policy: return the token to the policy the last cutover replaced
+ *   --note <text>        override: why the address is pinned
+ *   --expires <date>     override: when the override lapses
+ *
+ * CSV files have an "address" column (or addresses in the first column) and
+ * optionally "allowed" and "score" columns. Writes run as resumable jobs
+ * checkpointed to data/jobs/<job-id>.jsonl (see lib/whitelist-jobs.ts).
+ *
+ * Without a CSV, sync and tiers check the Ethos candidate set (saved by
+ * discover, or the daily discovery job) plus the policy's current members.
+ *
+ * Blacklist policies are synced with the inverted score rule: everyone can
+ * transfer except addresses below BLACKLIST_BELOW_SCORE (default 800). diff
+ * and export only work on whitelist policies.
+ *
+ * Required environment variables for writes:
+ * - ADMIN_PRIVATE_KEY: Private key for the admin account
+ */
+
+import "$std/dotenv/load.ts";
+import { parseArgs } from "$std/cli/parse_args.ts";
+import { CONTRACTS } from "../lib/contracts.ts";
+import {
+  candidatesToCsv,
+  type DiscoveryProgress,
+  discoverCandidates,
+  getCandidateSet,
+  getDiscoveryMinScore,
+  listCandidates,
+  saveCandidateSet,
+} from "../lib/ethos-discovery.ts";
+import { formatTokenAmount } from "../lib/tempo.ts";
+import {
+  getBlacklistBelowScore,
+  getPolicyRule,
+  getPolicyType,
+  getRemovalSafeguards,
+  loadWhitelistCsv,
+  parseWhitelistPlan,
+  readAuthorizations,
+  syncWhitelist,
+  type WhitelistChange,
+  type WhitelistPlan,
+  type WhitelistSyncOptions,
+  type WhitelistSyncProgress,
+} from "../lib/whitelist.ts";
+import {
+  createWhitelistJob,
+  listWhitelistJobs,
+  loadWhitelistJob,
+  runWhitelistJob,
+  summarizeWhitelistJob,
+  type WhitelistJob,
+} from "../lib/whitelist-jobs.ts";
+import {
+  CREATE_BATCH_SIZE,
+  createBlacklistPolicy,
+  createWhitelistPolicy,
+  getPolicyInfo,
+  getTokenPolicyId,
+} from "../lib/whitelist-policy.ts";
+import {
+  cutOverPolicyMigration,
+  getPolicyMembers,
+  listPolicyMigrations,
+  type PolicyMigration,
+  preparePolicyMigration,
+  rollbackPolicyMigration,
+} from "../lib/whitelist-migration.ts";
+import {
+  catchUpWhitelistMirror,
+  getWhitelistMirrorState,
+  listWhitelistMembers,
+  type WhitelistMirrorState,
+} from "../lib/whitelist-mirror.ts";
+import { diffWhitelist, exportWhitelist, whitelistExportToCsv } from "../lib/whitelist-export.ts";
+import { listWhitelistOverrides, removeWhitelistOverride, setWhitelistOverride } from "../lib/whitelist-overrides.ts";
+import { listWhitelistSyncRuns } from "../lib/whitelist-runs.ts";
+import { getTierPolicies, syncWhitelistTiers } from "../lib/whitelist-tiers.ts";
+import type { WhitelistAuditContext } from "../lib/whitelist-audit.ts";
+
+const flags = parseArgs(Deno.args, {
+  string: ["policy-id", "concurrency", "job", "out", "apply", "to", "note", "expires"],
+  boolean: ["dry-run", "force", "blacklist", "allow-removals", "rollback", "include-removed", "skip-scores", "help"],
+  alias: { "dry-run": "plan" },
+});
+const [command, ...inputs] = flags._.map(String);
+
+const PHASE_LABELS: Record<WhitelistSyncProgress["phase"], string> = {
+  scores: "Fetching scores",
+  reads: "Checking whitelist",
+  writes: "Updating whitelist",
+};
+
+// Overwrite a single progress line per phase
+function reportProgress({ phase, done, total }: WhitelistSyncProgress) {
+  const end = done === total ? "\n" : "";
+  Deno.stdout.writeSync(new TextEncoder().encode(`\r   ${PHASE_LABELS[phase]}: ${done}/${total}${end}`));
+}
+
+function reportDiscovery({ phase, done, total }: DiscoveryProgress) {
+  const line = phase === "profiles" ? `Scanning profiles: ids up to ${done}` : `Fetching linked addresses: ${done}/${total}`;
+  const end = phase === "addresses" && done === total ? "\n" : "";
+  Deno.stdout.writeSync(new TextEncoder().encode(`\r   ${line}${end}`));
+}
+
+function reportIndexing({ indexedToBlock, latestBlock }: WhitelistMirrorState) {
+  console.error(`   Indexed block ${indexedToBlock} of ${latestBlock}`);
+}
+
+function fail(message: string): never {
+  console.error(`\n❌ ${message}`);
+  Deno.exit(1);
+}
+
+function getPolicyId(): bigint {
+  const policyId = flags["policy-id"] ? BigInt(flags["policy-id"]) : CONTRACTS.POLICY_ID;
+  if (policyId === 0n) {
+    fail("No policy - set ETHOS_POLICY_ID or pass --policy-id");
+  }
+  return policyId;
+}
+
+// Engine options shared by every command that reads or writes a policy
+function getSyncOptions(audit?: WhitelistAuditContext): WhitelistSyncOptions {
+  const concurrency = flags.concurrency ? parseInt(flags.concurrency, 10) : undefined;
+  return {
+    maxInFlight: concurrency,
+    readConcurrency: concurrency,
+    onProgress: reportProgress,
+    audit,
+  };
+}
+
+// Changes for the addresses and CSV files given on the command line
+async function readChanges(args: string[], allowed: boolean): Promise<WhitelistChange[]> {
+  const changes: WhitelistChange[] = [];
+  for (const arg of args) {
+    if (/^0x[a-fA-F0-9]{40}$/.test(arg)) {
+      changes.push({ address: arg.toLowerCase(), allowed, reason: "manual" });
+      continue;
+    }
+
+    const { entries, invalid } = await loadWhitelistCsv(arg);
+    console.log(`📄 ${arg}: ${entries.length} addresses`);
+    if (invalid.length > 0) {
+      console.log(`   ⚠️  ${invalid.length} rows without a valid address skipped (first: row ${invalid[0].row})`);
+    }
+    // An "allowed" column only matters when adding - `remove` removes every listed address
+    const skipped = allowed ? entries.filter((entry) => entry.allowed === false) : [];
+    if (skipped.length > 0) {
+      console.log(`   ⚠️  ${skipped.length} rows marked allowed=false skipped - use \`whitelist remove\` for those`);
+    }
+    for (const entry of entries) {
+      if (!allowed || entry.allowed !== false) {
+        changes.push({ address: entry.address, allowed, reason: "csv_upload", score: entry.score ?? null });
+      }
+    }
+  }
+  return changes;
+}
+
+// Addresses from a CSV, or the candidate set
+async function readAddresses(path?: string): Promise<string[]> {
+  if (!path) {
+    return (await listCandidates()).map((candidate) => candidate.address);
+  }
+  return (await loadWhitelistCsv(path)).entries.map((entry) => entry.address);
+}
+
+async function runJob(job: WhitelistJob, options: WhitelistSyncOptions) {
+  const before = summarizeWhitelistJob(job);
+  console.log(`\n📍 Job: ${job.id} (policy ${job.policyId})`);
+  if (before.confirmed + before.skipped + before.sent + before.failed > 0) {
+    console.log(`   Resuming: ${before.confirmed + before.skipped} done, ${before.sent} awaiting receipts, ${before.failed} to retry`);
+  }
+  console.log();
+
+  const startTime = Date.now();
+  const summary = await runWhitelistJob(job, { ...options, policyId: job.policyId });
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+  console.log(`\n   Confirmed:       ${summary.confirmed}`);
+  console.log(`   Already applied: ${summary.skipped}`);
+  console.log(`   Failed:          ${summary.failed}`);
+  console.log(`   Time:            ${elapsed}s`);
+  for (const entry of job.entries.values()) {
+    if (entry.state === "failed") {
+      console.log(`   ⚠️  ${entry.address}: ${entry.error?.slice(0, 100)}`);
+    }
+  }
+  if (summary.failed > 0 || summary.pending > 0) {
+    console.log(`\n   Rerun with --job ${job.id} to retry the rest`);
+  }
+}
+
+// whitelist add|remove <csv|address>...
+async function changeMembers(allowed: boolean) {
+  const options = getSyncOptions({ trigger: "manual", operator: Deno.env.get("USER") || "unknown" });
+
+  let job = flags.job ? await loadWhitelistJob(flags.job) : null;
+  if (!job) {
+    if (inputs.length === 0) {
+      fail(flags.job ? `No job ${flags.job} found in data/jobs` : `Usage: whitelist ${command} <csv|address>...`);
+    }
+    const policyId = getPolicyId();
+    if (await getPolicyType(policyId) === "blacklist") {
+      console.log(`🔓 Policy ${policyId} is a blacklist - ${command} ${allowed ? "lifts restrictions" : "restricts addresses"}`);
+    }
+    const changes = await readChanges(inputs, allowed);
+
+    if (flags["dry-run"]) {
+      const { authorized } = await readAuthorizations(changes.map((change) => change.address), { ...options, policyId });
+      const pending = changes.filter((change) => authorized.get(change.address) !== allowed);
+      console.log(`\n📝 ${pending.length} to ${allowed ? "add" : "remove"}, ${changes.length - pending.length} already ${allowed ? "on" : "off"} policy ${policyId}`);
+      for (const change of pending) {
+        console.log(`   ${allowed ? "+" : "-"} ${change.address}`);
+      }
+      return;
+    }
+
+    job = await createWhitelistJob({ id: flags.job, policyId, changes });
+  }
+
+  await runJob(job, options);
+}
+
+// Print a plan in the style of `terraform plan`
+function printPlan(plan: WhitelistPlan) {
+  const adds = plan.changes.filter((change) => change.allowed);
+  const removes = plan.changes.filter((change) => !change.allowed);
+
+  const rule = plan.tier
+    ? `${plan.tier} tier, scores ${plan.minScore}${plan.maxScore === null ? " and up" : `-${plan.maxScore - 1}`}`
+    : plan.policyType === "blacklist"
+    ? `blacklist, restricting below ${plan.removeBelowScore}`
+    : `minimum score ${plan.minScore}`;
+  console.log(`\n📝 Plan (policy ${plan.policyId}, ${rule})\n`);
+  for (const change of plan.changes) {
+    const scores = change.previousScore === null
+      ? `score ${change.score ?? "none"}`
+      : `score ${change.previousScore} → ${change.score ?? "none"}`;
+    console.log(`   ${change.allowed ? "+" : "-"} ${change.address}  ${change.reason} (${scores})`);
+  }
+
+  if (plan.held.length > 0) {
+    console.log(`\n   Held in grace period (below ${plan.removeBelowScore}):`);
+    for (const held of plan.held) {
+      console.log(`   ~ ${held.address}  score ${held.score ?? "none"}, removable after ${held.removableAt}`);
+    }
+  }
+
+  const { estimate } = plan;
+  const fee = estimate.totalFeeFormatted === null ? "unknown" : `${estimate.totalFeeFormatted} USD`;
+  console.log(`\n   Plan: ${adds.length} to add, ${removes.length} to remove, ${plan.unchanged} unchanged`);
+  console.log(`   Transactions: ${estimate.txCount} | Estimated fee: ${fee}`);
+  if (plan.unknown.length > 0) {
+    console.log(`   ❔ ${plan.unknown.length} addresses skipped - Ethos score unavailable`);
+  }
+  if (estimate.error) {
+    console.log(`   ⚠️  ${estimate.error}`);
+  }
+  if (plan.blocked) {
+    console.log(`\n   🛑 ${plan.blocked}`);
+  }
+}
+
+// whitelist sync [csv] [--dry-run [--out plan.json]] [--apply plan.json] [--force]
+async function sync() {
+  const options = { ...getSyncOptions(), policyId: getPolicyId() };
+  const rule = getPolicyRule(await getPolicyType(options.policyId), {
+    ...getRemovalSafeguards(),
+    blacklistBelowScore: getBlacklistBelowScore(),
+  });
+  console.log(rule.policyType === "blacklist"
+    ? `\n🔄 Syncing blacklist policy ${options.policyId} with Ethos scores (restricting below ${rule.removeBelowScore})`
+    : `\n🔄 Syncing policy ${options.policyId} with Ethos scores (minimum ${rule.addAtScore})`);
+
+  if (flags.apply) {
+    // A saved plan is applied as a resumable job
+    const plan = parseWhitelistPlan(JSON.parse(await Deno.readTextFile(flags.apply)));
+    printPlan(plan);
+    if (plan.blocked && !flags.force) {
+      fail("Plan was blocked by the circuit breaker - pass --force to apply it anyway");
+    }
+    const job = await createWhitelistJob({ id: flags.job, policyId: BigInt(plan.policyId), changes: plan.changes });
+    await runJob(job, options);
+    return;
+  }
+
+  const addresses = inputs[0] ? await readAddresses(inputs[0]) : undefined;
+  if (addresses) {
+    console.log(`📄 Loaded ${addresses.length} addresses from ${inputs[0]}`);
+  }
+  console.log();
+
+  const startTime = Date.now();
+  const result = await syncWhitelist(addresses, { ...options, dryRun: flags["dry-run"], force: flags.force });
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+  if (flags["dry-run"]) {
+    if (result.plan) {
+      printPlan(result.plan);
+      if (flags.out) {
+        await Deno.writeTextFile(flags.out, JSON.stringify(result.plan, null, 2) + "\n");
+        console.log(`\n💾 Saved plan to ${flags.out} - apply it with \`whitelist sync --apply ${flags.out}\``);
+      }
+    }
+  } else {
+    console.log(`   Addresses checked: ${result.checked}`);
+    console.log(`   Addresses added:   ${result.added.length}`);
+    console.log(`   Addresses removed: ${result.removed.length}`);
+    console.log(`   Removals held:     ${result.plan?.held.length ?? 0}`);
+    console.log(`   Unknown (skipped): ${result.unknown.length}`);
+    console.log(`   Time:              ${elapsed}s`);
+    for (const address of result.added) {
+      console.log(`   + ${address} (score ${result.scores.get(address) ?? "none"})`);
+    }
+    for (const address of result.removed) {
+      console.log(`   - ${address} (score ${result.scores.get(address) ?? "none"})`);
+    }
+    for (const address of result.unknown) {
+      console.log(`   ? ${address} (Ethos score unavailable)`);
+    }
+  }
+
+  for (const error of result.errors) {
+    console.log(`   ⚠️  ${error}`);
+  }
+  if (result.plan?.blocked && !flags.force && !flags["dry-run"]) {
+    Deno.exit(1);
+  }
+}
+
+// whitelist tiers [csv] [--dry-run] [--force]
+async function tiers() {
+  const policies = getTierPolicies();
+  if (policies.length === 0) {
+    fail("No tier policies - set ETHOS_TIER_POLICY_IDS, e.g. neutral:146,reputable:147,exemplary:148");
+  }
+
+  const addresses = inputs[0] ? await readAddresses(inputs[0]) : undefined;
+  console.log(`\n🏅 Syncing ${policies.length} tier policies with Ethos scores`);
+  for (const policy of policies) {
+    const limit = policy.dailyLimit === null ? "unlimited" : `${formatTokenAmount(policy.dailyLimit)}/day`;
+    console.log(`   ${policy.tier.padEnd(10)} policy ${policy.policyId}, scores from ${policy.minScore}, ${limit}`);
+  }
+
+  const results = await syncWhitelistTiers(addresses, {
+    ...getSyncOptions({ trigger: "script", operator: Deno.env.get("USER") || "unknown" }),
+    dryRun: flags["dry-run"],
+    force: flags.force,
+  });
+
+  for (const { tier, result } of results) {
+    if (flags["dry-run"] && result.plan) {
+      printPlan(result.plan);
+    } else {
+      console.log(`\n   ${tier}: +${result.added.length} -${result.removed.length}, ${result.plan?.held.length ?? 0} held, ${result.unknown.length} unknown`);
+    }
+    for (const error of result.errors) {
+      console.log(`   ⚠️  ${error}`);
+    }
+  }
+}
+
+// whitelist discover [--dry-run] [--out file] - the Ethos profiles at or above
+// ETHOS_DISCOVERY_MIN_SCORE (every profile for a blacklist policy), with all
+// their linked addresses
+async function discover() {
+  const minScore = getDiscoveryMinScore(await getPolicyType(getPolicyId()));
+  console.log(`\n🔭 Discovering Ethos profiles with a score of ${minScore} or more\n`);
+  const discovery = await discoverCandidates({ minScore, onProgress: reportDiscovery });
+  console.log(`\n   Profiles:   ${discovery.profiles} (ids up to ${discovery.lastProfileId})`);
+  console.log(`   Addresses:  ${discovery.candidates.length}`);
+
+  if (flags.out) {
+    await Deno.writeTextFile(flags.out, candidatesToCsv(discovery.candidates));
+    console.log(`💾 Wrote the candidates to ${flags.out}`);
+  }
+  if (flags["dry-run"]) {
+    console.log("\n🔍 Dry run - candidate set not saved");
+    return;
+  }
+
+  const { set, changed } = await saveCandidateSet(discovery);
+  console.log(changed
+    ? `\n✅ Saved candidate set ${set.hash.slice(0, 12)}`
+    : `\n✅ Candidate set unchanged (${set.hash.slice(0, 12)})`);
+}
+
+// whitelist diff [csv] - a policy's members (from WhitelistUpdated events) against a CSV or the candidate set
+async function diff() {
+  const policyId = getPolicyId();
+  const addresses = await readAddresses(inputs[0]);
+  console.log(`\n🔍 Comparing ${addresses.length} addresses from ${inputs[0] ?? "the candidate set"} with policy ${policyId}`);
+  await catchUpWhitelistMirror(policyId, reportIndexing);
+
+  const result = await diffWhitelist(policyId, addresses);
+  console.log();
+  for (const address of result.onlyListed) {
+    console.log(`   + ${address}  listed, not on policy`);
+  }
+  for (const address of result.onlyOnChain) {
+    console.log(`   - ${address}  on policy, not listed`);
+  }
+  console.log(`\n   On both:           ${result.both}`);
+  console.log(`   Only listed:       ${result.onlyListed.length}`);
+  console.log(`   Only on policy:    ${result.onlyOnChain.length}`);
+}
+
+// whitelist status
+async function status() {
+  const policyId = getPolicyId();
+  const [tokenPolicyId, info, mirror, runs, jobs, overrides, migrations, candidates] = await Promise.all([
+    getTokenPolicyId(),
+    getPolicyInfo(policyId),
+    getWhitelistMirrorState(policyId),
+    listWhitelistSyncRuns(1),
+    listWhitelistJobs(),
+    listWhitelistOverrides(),
+    listPolicyMigrations(1),
+    getCandidateSet(),
+  ]);
+
+  console.log(`\n📊 Whitelist status\n`);
+  console.log(`   Policy:        ${policyId} (${info.type}, admin ${info.admin})`);
+  console.log(`   Token policy:  ${tokenPolicyId}${tokenPolicyId === policyId ? "" : "  ⚠️  token enforces a different policy"}`);
+  if (info.type === "blacklist") {
+    console.log(`   Members:       everyone not restricted (blacklist below score ${getBlacklistBelowScore()})`);
+  } else if (mirror) {
+    const members = (await listWhitelistMembers(policyId)).filter((member) => member.allowed).length;
+    console.log(`   Members:       ${members} (mirror at block ${mirror.indexedToBlock} of ${mirror.latestBlock})`);
+  } else {
+    console.log(`   Members:       unknown (mirror not built for this policy)`);
+  }
+  console.log(`   Overrides:     ${overrides.length}`);
+  console.log(candidates
+    ? `   Candidates:    ${candidates.addresses} addresses from ${candidates.profiles} profiles (score ${candidates.minScore}+, discovered ${new Date(candidates.discoveredAt).toISOString()})`
+    : `   Candidates:    none - run \`whitelist discover\``);
+
+  const [lastRun] = runs;
+  if (lastRun) {
+    console.log(`   Last sync:     ${new Date(lastRun.startedAt).toISOString()} ${lastRun.status} (+${lastRun.added.length} -${lastRun.removed.length})`);
+  }
+
+  const [lastMigration] = migrations;
+  if (lastMigration) {
+    console.log(`   Last migration: ${lastMigration.fromPolicyId} → ${lastMigration.toPolicyId} ${lastMigration.status} (${new Date(lastMigration.createdAt).toISOString()})`);
+  }
+
+  const open = jobs.map(summarizeWhitelistJob).filter((job) => job.pending + job.sent + job.failed > 0);
+  if (open.length > 0) {
+    console.log(`\n   Unfinished jobs:`);
+    for (const job of open) {
+      console.log(`   ${job.id}  ${job.confirmed + job.skipped}/${job.total} done, ${job.failed} failed`);
+    }
+  }
+}
+
+// whitelist export [--out file] [--include-removed] [--skip-scores]
+async function exportMembers() {
+  const policyId = getPolicyId();
+  console.error(`\n📦 Indexing WhitelistUpdated events for policy ${policyId}...`);
+  await catchUpWhitelistMirror(policyId, reportIndexing);
+
+  const rows = await exportWhitelist(policyId, {
+    includeRemoved: flags["include-removed"],
+    scores: !flags["skip-scores"],
+  });
+  const csv = whitelistExportToCsv(rows);
+
+  if (flags.out) {
+    await Deno.writeTextFile(flags.out, csv);
+    console.error(`💾 Wrote ${rows.length} addresses to ${flags.out}`);
+  } else {
+    await Deno.stdout.write(new TextEncoder().encode(csv));
+  }
+}
+
+// whitelist create <csv> [--blacklist] - a new policy; the token isn't switched to it
+async function create() {
+  const audit: WhitelistAuditContext = { trigger: "script", operator: Deno.env.get("USER") || "unknown" };
+
+  if (flags.job) {
+    // The policy exists already - finish adding its remaining addresses
+    const job = await loadWhitelistJob(flags.job);
+    if (!job) {
+      fail(`No job ${flags.job} found in data/jobs`);
+    }
+    await runJob(job, getSyncOptions(audit));
+    return;
+  }
+
+  if (!inputs[0]) {
+    fail("Usage: whitelist create <csv>");
+  }
+  const blacklist = flags.blacklist;
+  // A blacklist restricts every listed address; a whitelist skips rows marked allowed=false
+  const addresses = (await loadWhitelistCsv(inputs[0])).entries
+    .filter((entry) => blacklist || entry.allowed !== false)
+    .map((entry) => entry.address);
+  console.log(`\n📄 Loaded ${addresses.length} addresses from ${inputs[0]}`);
+
+  if (blacklist) {
+    const transactions = Math.max(addresses.length - CREATE_BATCH_SIZE, 0);
+    console.log(`   Blacklist: 1 create transaction restricting up to ${CREATE_BATCH_SIZE} addresses, then ${transactions} restrictions`);
+  } else {
+    const transactions = Math.max(addresses.length + 1 - CREATE_BATCH_SIZE, 0);
+    console.log(`   1 create transaction with up to ${CREATE_BATCH_SIZE} addresses (including the admin), then ${transactions} adds`);
+  }
+  if (flags["dry-run"]) {
+    return;
+  }
+
+  const created = await (blacklist ? createBlacklistPolicy : createWhitelistPolicy)(addresses, {
+    ...getSyncOptions(audit),
+    onCreated: (policyId, txHash) => console.log(`\n✅ Created policy ${policyId} (${txHash})`),
+  });
+
+  if (created.job && created.summary) {
+    console.log(`   Job ${created.job.id}: ${created.summary.confirmed + created.summary.skipped}/${created.summary.total} ${blacklist ? "restricted" : "added"}`);
+    if (created.summary.failed > 0 || created.summary.pending > 0) {
+      console.log(`   ⚠️  Rerun with \`whitelist create --job ${created.job.id}\` to retry the rest`);
+    }
+  }
+  console.log(blacklist
+    ? `\n   Switch the token to it with: deno task whitelist migrate-policy --to ${created.policyId}`
+    : `\n   Switch the token to it with: deno task whitelist migrate-policy ${inputs[0]} --to ${created.policyId}`);
+}
+
+function printMigration(migration: PolicyMigration) {
+  const { verification, diff } = migration;
+  console.log(`\n🔍 Verified policy ${migration.toPolicyId}: ${verification.authorized}/${verification.expected} expected members authorized`);
+  for (const address of verification.missing.slice(0, 20)) {
+    console.log(`   ✗ ${address}  not authorized`);
+  }
+  if (verification.missing.length > 20) {
+    console.log(`   ... and ${verification.missing.length - 20} more`);
+  }
+  for (const error of verification.errors) {
+    console.log(`   ⚠️  ${error}`);
+  }
+
+  console.log(`\n📊 Policy ${diff.fromPolicyId} → ${diff.toPolicyId}: ${diff.both} on both, ${diff.onlyTo.length} gain access, ${diff.onlyFrom.length} lose access`);
+  for (const address of diff.onlyFrom.slice(0, 20)) {
+    console.log(`   - ${address}`);
+  }
+  if (diff.onlyFrom.length > 20) {
+    console.log(`   ... and ${diff.onlyFrom.length - 20} more`);
+  }
+}
+
+// whitelist migrate-policy [csv] [--to <policy-id>] [--allow-removals] [--dry-run]
+// whitelist migrate-policy --rollback
+// Builds a new policy from the CSV (or a copy of the current one), verifies
+// and diffs it, and only then points the token at it
+async function migratePolicy() {
+  const operator = Deno.env.get("USER") || "unknown";
+
+  if (flags.rollback) {
+    const migration = await rollbackPolicyMigration();
+    console.log(`\n↩️  Token back on policy ${migration.fromPolicyId} (${migration.rollbackTxHash})`);
+    console.log(`\n📝 Update your .env:\n   ETHOS_POLICY_ID=${migration.fromPolicyId}`);
+    return;
+  }
+
+  const fromPolicyId = await getTokenPolicyId();
+  console.log(`\n🔒 Token ${CONTRACTS.ETHOS_USD_TOKEN} uses policy ${fromPolicyId}`);
+
+  // Expected members: the CSV, or everyone on the current policy
+  let expected: string[];
+  if (inputs[0]) {
+    expected = (await loadWhitelistCsv(inputs[0])).entries
+      .filter((entry) => entry.allowed !== false)
+      .map((entry) => entry.address);
+    console.log(`📄 ${expected.length} expected members from ${inputs[0]}`);
+  } else {
+    console.log(`📦 Reading members of policy ${fromPolicyId}...`);
+    expected = await getPolicyMembers(fromPolicyId);
+    console.log(`   ${expected.length} expected members (a copy of policy ${fromPolicyId})`);
+  }
+
+  let toPolicyId: bigint;
+  if (flags.to) {
+    toPolicyId = BigInt(flags.to);
+    const info = await getPolicyInfo(toPolicyId);
+    if (info.type === "blacklist") {
+      console.log(`🔓 Policy ${toPolicyId} is a blacklist - everyone it doesn't restrict can transfer after cutover`);
+    }
+  } else if (flags["dry-run"]) {
+    console.log(`\n   Would create a policy with ${expected.length} addresses, verify it and cut over`);
+    return;
+  } else {
+    const created = await createWhitelistPolicy(expected, {
+      ...getSyncOptions({ trigger: "script", operator }),
+      onCreated: (policyId, txHash) => console.log(`\n✅ Created policy ${policyId} (${txHash})`),
+    });
+    toPolicyId = created.policyId;
+    if (created.job && created.summary && created.summary.failed + created.summary.pending > 0) {
+      console.log(`   ⚠️  ${created.summary.failed + created.summary.pending} adds failed - finish them with \`whitelist create --job ${created.job.id}\``);
+    }
+  }
+
+  const migration = await preparePolicyMigration(toPolicyId, expected, {
+    ...getSyncOptions(),
+    allowRemovals: flags["allow-removals"],
+    operator,
+  });
+  printMigration(migration);
+
+  if (migration.blocked) {
+    console.log(`\n🛑 ${migration.blocked}`);
+    fail(`Not cutting over. Fix the new policy and rerun with --to ${toPolicyId}` +
+      (migration.diff.onlyFrom.length > 0 ? " (--allow-removals if those removals are intended)" : ""));
+  }
+  if (flags["dry-run"]) {
+    console.log(`\n   Verified - rerun without --dry-run to cut over`);
+    return;
+  }
+
+  const cutOver = await cutOverPolicyMigration(migration);
+  console.log(`\n✅ Token now uses policy ${cutOver.toPolicyId} (${cutOver.cutOverTxHash})`);
+  console.log(`   Roll back with: deno task whitelist migrate-policy --rollback`);
+  console.log(`\n📝 Update your .env:\n   ETHOS_POLICY_ID=${cutOver.toPolicyId}`);
+}
+
+// whitelist override <list|allow|deny|clear> [address]
+async function override() {
+  const [action, address] = inputs;
+
+  if (action === "list" || action === undefined) {
+    const overrides = await listWhitelistOverrides();
+    if (overrides.length === 0) {
+      console.log("No active overrides");
+    }
+    for (const override of overrides) {
+      const expires = override.expiresAt ? `until ${override.expiresAt}` : "no expiry";
+      console.log(`${override.mode === "allow" ? "+" : "-"} ${override.address}  ${override.mode}, ${expires}`);
+      console.log(`    ${override.note} (${override.createdBy}, ${override.createdAt})`);
+    }
+    return;
+  }
+
+  if (action === "allow" || action === "deny") {
+    const override = await setWhitelistOverride({
+      address: address ?? "",
+      mode: action,
+      note: flags.note ?? "",
+      expiresAt: flags.expires ?? null,
+      createdBy: Deno.env.get("USER") || "unknown",
+    });
+    console.log(`✅ ${override.address} pinned as ${override.mode}${override.expiresAt ? ` until ${override.expiresAt}` : ""}`);
+    console.log("   Takes effect on the next sync (`whitelist sync` to apply now)");
+    return;
+  }
+
+  if (action === "clear" && address) {
+    const removed = await removeWhitelistOverride(address);
+    console.log(removed ? `✅ Override for ${address} cleared` : `No override for ${address}`);
+    return;
+  }
+
+  fail("Usage: whitelist override <list|allow|deny|clear> [address] [--note text] [--expires date]");
+}
+
+const COMMANDS: Record<string, () => Promise<void>> = {
+  create,
+  discover,
+  add: () => changeMembers(true),
+  remove: () => changeMembers(false),
+  sync,
+  tiers,
+  diff,
+  status,
+  export: exportMembers,
+  "migrate-policy": migratePolicy,
+  override,
+};
+
+async function main() {
+  if (!Object.hasOwn(COMMANDS, command) || flags.help) {
+    console.log(`Usage: deno task whitelist <${Object.keys(COMMANDS).join("|")}> [args] [flags]`);
+    console.log("See scripts/whitelist.ts for commands and flags");
+    Deno.exit(flags.help ? 0 : 1);
+  }
+  await COMMANDS[command]();
+}
+
+main().catch((error) => {
+  console.error("❌ Error:", error.message || error);
+  Deno.exit(1);
+});
@@ -0,0 +1,138 @@
+import { assertEquals, assertRejects } from "$std/assert/mod.ts";
+import { reconcilePendingClaims, revokeClaim } from "../lib/claim-pipeline.ts";
+import { getClaimStore } from "../lib/claim-store.ts";
+import { mockFetch, RpcError, rpcReceipt } from "./mock-fetch.ts";
+
+// Read lazily, on first use
+Deno.env.set("KV_PATH", ":memory:");
+Deno.env.set("ADMIN_PRIVATE_KEY", `0x${"01".repeat(32)}`);
+
+const HASH = `0x${"cd".repeat(32)}`;
+
+// A confirmed claim credits its account, so each test claims from a new one
+let claimant = 0;
+
+// A claim broadcast with the given admin nonce, waiting for its receipt.
+// Whatever earlier tests left in flight is failed first.
+async function mintedClaim(nonce: number) {
+  const store = await getClaimStore();
+  for (const claim of await store.list()) {
+    if (claim.status === "reserved" || claim.status === "minted") {
+      await store.markFailed(claim.id, "Reset between tests");
+    }
+  }
+  const claim = await store.reserve({
+    accountId: `profile:${++claimant}`,
+    address: "0x00000000000000000000000000000000000000aa",
+    requestedBy: "0x00000000000000000000000000000000000000aa",
+    amount: 5_000_000n,
+    xp: 5,
+    xpTotal: 5,
+  });
+  return await store.markMinted(claim!.id, HASH, { nonce, rawTransaction: "0x02" });
+}
+
+// The chain: the admin's confirmed nonce and the answer for the mint's receipt
+function chain(confirmedNonce: number, receipt: () => unknown) {
+  return mockFetch({
+    rpc: (method) => {
+      switch (method) {
+        case "eth_getTransactionCount":
+          return `0x${confirmedNonce.toString(16)}`;
+        case "eth_getTransactionReceipt":
+          return receipt();
+        default:
+          throw new RpcError(`Unexpected ${method}`);
+      }
+    },
+  });
+}
+
+async function statusOf(id: string) {
+  return (await (await getClaimStore()).get(id))?.status;
+}
+
+Deno.test("a successful receipt confirms the claim", async () => {
+  const claim = await mintedClaim(3);
+  const fetch = chain(4, () => rpcReceipt(HASH));
+  try {
+    const result = await reconcilePendingClaims();
+    assertEquals(result.confirmed, [claim.id]);
+    assertEquals(await statusOf(claim.id), "confirmed");
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("a reverted receipt fails the claim", async () => {
+  const claim = await mintedClaim(3);
+  const fetch = chain(4, () => rpcReceipt(HASH, "reverted"));
+  try {
+    const result = await reconcilePendingClaims();
+    assertEquals(result.failed, [claim.id]);
+    assertEquals(await statusOf(claim.id), "failed");
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("a missing receipt fails the claim once its nonce went to another transaction", async () => {
+  const claim = await mintedClaim(3);
+  const fetch = chain(4, () => null);
+  try {
+    const result = await reconcilePendingClaims();
+    assertEquals(result.failed, [claim.id]);
+    assertEquals(await statusOf(claim.id), "failed");
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("a missing receipt leaves the claim minted while its nonce is unused", async () => {
+  const claim = await mintedClaim(3);
+  const fetch = chain(3, () => null);
+  try {
+    const result = await reconcilePendingClaims();
+    assertEquals(result.failed, []);
+    assertEquals(result.rebroadcast, []);
+    assertEquals(await statusOf(claim.id), "minted");
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("an RPC error reading the receipt leaves the claim minted", async () => {
+  const claim = await mintedClaim(3);
+  const fetch = chain(4, () => {
+    throw new RpcError("rate limited");
+  });
+  try {
+    const result = await reconcilePendingClaims();
+    assertEquals(result.confirmed, []);
+    assertEquals(result.failed, []);
+    assertEquals(result.errors.length, 1);
+    assertEquals(await statusOf(claim.id), "minted");
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("a queued claim can be revoked until its mint is signed", async () => {
+  const store = await getClaimStore();
+  const queued = await store.reserve({
+    accountId: `profile:${++claimant}`,
+    address: "0x00000000000000000000000000000000000000aa",
+    requestedBy: "0x00000000000000000000000000000000000000aa",
+    amount: 5_000_000n,
+    xp: 5,
+    xpTotal: 5,
+  });
+
+  const revoked = await revokeClaim(queued!.id, "duplicate profile");
+  assertEquals([revoked.status, revoked.error], ["failed", "Revoked by admin: duplicate profile"]);
+  assertEquals((await store.getAccount(queued!.accountId))?.activeClaimId, null);
+
+  const minted = await mintedClaim(3);
+  await assertRejects(() => revokeClaim(minted.id, "too late"), Error, "already been minted or settled");
+  assertEquals(await statusOf(minted.id), "minted");
+});
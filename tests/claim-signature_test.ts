@@ -0,0 +1,100 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  CLAIM_TYPES,
+  getClaimDomain,
+  issueClaimNonce,
+  verifyClaimSignature,
+} from "../lib/claim-signature.ts";
+
+// Read lazily, on first use
+Deno.env.set("KV_PATH", ":memory:");
+
+const claimant = privateKeyToAccount(`0x${"02".repeat(32)}`);
+const other = privateKeyToAccount(`0x${"03".repeat(32)}`);
+// Another wallet linked to the claimant's profile, receiving the mint
+const wallet = "0x00000000000000000000000000000000000000bb";
+
+// Sign the claim for an address the way the wallet would
+function sign(signer: typeof claimant, address: string, recipient: string, nonce: string, issuedAt: number) {
+  return signer.signTypedData({
+    domain: getClaimDomain(),
+    types: CLAIM_TYPES,
+    primaryType: "Claim",
+    message: {
+      account: address.toLowerCase() as `0x${string}`,
+      recipient: recipient.toLowerCase() as `0x${string}`,
+      nonce: nonce as `0x${string}`,
+      issuedAt: BigInt(issuedAt),
+    },
+  });
+}
+
+Deno.test("a signed nonce is accepted once", async () => {
+  const { nonce, issuedAt } = await issueClaimNonce(claimant.address, wallet);
+  const signature = await sign(claimant, claimant.address, wallet, nonce, issuedAt);
+
+  assertEquals(await verifyClaimSignature(claimant.address, nonce, signature), { valid: true, recipient: wallet });
+  assertEquals((await verifyClaimSignature(claimant.address, nonce, signature)).valid, false);
+});
+
+Deno.test("concurrent submissions of one signature let exactly one through", async () => {
+  const { nonce, issuedAt } = await issueClaimNonce(claimant.address, wallet);
+  const signature = await sign(claimant, claimant.address, wallet, nonce, issuedAt);
+
+  const results = await Promise.all(
+    Array.from({ length: 5 }, () => verifyClaimSignature(claimant.address, nonce, signature))
+  );
+  assertEquals(results.filter((result) => result.valid).length, 1);
+});
+
+Deno.test("a nonce is bound to the address it was issued for", async () => {
+  const { nonce, issuedAt } = await issueClaimNonce(claimant.address, wallet);
+  const signature = await sign(other, other.address, wallet, nonce, issuedAt);
+
+  assertEquals(await verifyClaimSignature(other.address, nonce, signature), {
+    valid: false,
+    error: "Nonce was issued for a different address",
+    status: 403,
+  });
+  // Refusing it doesn't burn the nonce for its owner
+  const own = await sign(claimant, claimant.address, wallet, nonce, issuedAt);
+  assertEquals(await verifyClaimSignature(claimant.address, nonce, own), { valid: true, recipient: wallet });
+});
+
+Deno.test("a signature from another wallet is refused and leaves the nonce usable", async () => {
+  const { nonce, issuedAt } = await issueClaimNonce(claimant.address, wallet);
+  const forged = await sign(other, claimant.address, wallet, nonce, issuedAt);
+
+  assertEquals((await verifyClaimSignature(claimant.address, nonce, forged)).valid, false);
+  const own = await sign(claimant, claimant.address, wallet, nonce, issuedAt);
+  assertEquals(await verifyClaimSignature(claimant.address, nonce, own), { valid: true, recipient: wallet });
+});
+
+Deno.test("a signature naming another recipient is refused", async () => {
+  const { nonce, issuedAt } = await issueClaimNonce(claimant.address, wallet);
+  const redirected = await sign(claimant, claimant.address, other.address, nonce, issuedAt);
+
+  assertEquals((await verifyClaimSignature(claimant.address, nonce, redirected)).valid, false);
+});
+
+Deno.test("a nonce the server never issued is refused", async () => {
+  const nonce = `0x${"ee".repeat(32)}`;
+  const signature = await sign(claimant, claimant.address, wallet, nonce, Date.now());
+
+  assertEquals(await verifyClaimSignature(claimant.address, nonce, signature), {
+    valid: false,
+    error: "Signature expired or already used. Please try again.",
+    status: 400,
+  });
+});
+
+Deno.test("a malformed nonce is refused before it is looked up", async () => {
+  const signature = await sign(claimant, claimant.address, wallet, `0x${"ee".repeat(32)}`, Date.now());
+  const invalid = { valid: false, error: "Invalid nonce format", status: 400 };
+
+  assertEquals(await verifyClaimSignature(claimant.address, "0xee", signature), invalid);
+  assertEquals(await verifyClaimSignature(claimant.address, "ee".repeat(32), signature), invalid);
+  // Request bodies aren't typed
+  assertEquals(await verifyClaimSignature(claimant.address, 42 as unknown as string, signature), invalid);
+});
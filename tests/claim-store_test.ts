@@ -0,0 +1,204 @@
+import { assert, assertEquals, assertRejects } from "$std/assert/mod.ts";
+import {
+  type ClaimReservation,
+  type ClaimStore,
+  claimAccountId,
+  ClaimTransitionError,
+  createKvClaimStore,
+} from "../lib/claim-store.ts";
+import type { IssuanceLimits } from "../lib/issuance.ts";
+
+const ADDRESS = "0x00000000000000000000000000000000000000aa";
+
+function reservation(overrides: Partial<ClaimReservation> = {}): ClaimReservation {
+  return {
+    accountId: "profile:1",
+    profileId: 1,
+    address: ADDRESS,
+    requestedBy: ADDRESS,
+    amount: 5_000_000n,
+    xp: 5,
+    xpTotal: 5,
+    ...overrides,
+  };
+}
+
+async function withStore(limits: IssuanceLimits, fn: (store: ClaimStore) => Promise<void>) {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    await fn(createKvClaimStore(kv, limits));
+  } finally {
+    kv.close();
+  }
+}
+
+Deno.test("reserve takes the account", () =>
+  withStore({}, async (store) => {
+    const claim = await store.reserve(reservation());
+
+    assert(claim);
+    assertEquals(claim.status, "reserved");
+    assertEquals((await store.getAccount("profile:1"))?.activeClaimId, claim.id);
+    assertEquals((await store.getIssuanceUsage()).total, 5_000_000n);
+  }));
+
+Deno.test("claims are keyed by profile, or by address without one", () => {
+  assertEquals(claimAccountId(1, ADDRESS), "profile:1");
+  assertEquals(claimAccountId(null, `0x${ADDRESS.slice(2).toUpperCase()}`), ADDRESS);
+});
+
+Deno.test("reserve refuses a second claim while one is in flight, to any linked wallet", () =>
+  withStore({}, async (store) => {
+    assert(await store.reserve(reservation()));
+    assertEquals(await store.reserve(reservation({ address: "0x00000000000000000000000000000000000000bb" })), null);
+  }));
+
+Deno.test("reserve refuses a delta computed against stale paid XP", () =>
+  withStore({}, async (store) => {
+    assertEquals(await store.reserve(reservation({ xp: 5, xpTotal: 8 })), null);
+  }));
+
+Deno.test("concurrent reservations for one account let exactly one through", () =>
+  withStore({}, async (store) => {
+    const claims = await Promise.all(Array.from({ length: 5 }, () => store.reserve(reservation())));
+    assertEquals(claims.filter(Boolean).length, 1);
+  }));
+
+Deno.test("reserve holds a claim over a limit for review without counting it", () =>
+  withStore({ maxPerClaim: 1_000_000n }, async (store) => {
+    const claim = await store.reserve(reservation());
+
+    assert(claim);
+    assertEquals(claim.status, "review");
+    assertEquals(claim.reviewReason, "Claim exceeds the per-claim maximum");
+    assertEquals((await store.getIssuanceUsage()).total, 0n);
+    // A held claim still occupies the account
+    assertEquals(await store.reserve(reservation()), null);
+  }));
+
+Deno.test("the supply ceiling counts the claims before it", () =>
+  withStore({ supplyCeiling: 8_000_000n }, async (store) => {
+    assertEquals((await store.reserve(reservation()))?.status, "reserved");
+    const second = await store.reserve(reservation({ accountId: "profile:2", profileId: 2 }));
+    assertEquals(second?.reviewReason, "Claim would exceed the total supply ceiling");
+  }));
+
+Deno.test("the reward budget counts in-flight claims like the supply ceiling", () =>
+  withStore({}, async (store) => {
+    // Both claims were priced against an untouched 8 ethosUSD budget
+    assertEquals((await store.reserve(reservation({ budgetCap: 8_000_000n })))?.status, "reserved");
+    const second = await store.reserve(reservation({ accountId: "profile:2", profileId: 2, budgetCap: 8_000_000n }));
+    assertEquals(second?.status, "review");
+  }));
+
+Deno.test("confirming a claim credits the account and allows a top-up", () =>
+  withStore({}, async (store) => {
+    const claim = await store.reserve(reservation());
+    assert(claim);
+
+    await store.markMinted(claim.id, "0x01", { nonce: 7 });
+    const confirmed = await store.markConfirmed(claim.id);
+
+    assertEquals(confirmed.status, "confirmed");
+    const account = await store.getAccount("profile:1");
+    assertEquals(account?.paidXp, 5);
+    assertEquals(account?.paidAmount, 5_000_000n);
+    assertEquals(account?.activeClaimId, null);
+
+    // Only the XP earned since can be claimed
+    assertEquals(await store.reserve(reservation()), null);
+    const topUp = await store.reserve(reservation({ xp: 3, xpTotal: 8, amount: 3_000_000n }));
+    assert(topUp);
+    assertEquals((await store.listByAccount("profile:1")).map((c) => c.id).sort(), [topUp.id, claim.id].sort());
+  }));
+
+Deno.test("reserve folds legacy per-address accounts into the profile account", () =>
+  withStore({}, async (store) => {
+    const legacy = await store.reserve(reservation({ accountId: ADDRESS, profileId: undefined }));
+    assert(legacy);
+    await store.markMinted(legacy.id, "0x01");
+    await store.markConfirmed(legacy.id);
+
+    assertEquals((await store.getAccount("profile:1", [ADDRESS]))?.paidXp, 5);
+    assertEquals(await store.reserve(reservation({ legacyAccountIds: [ADDRESS] })), null);
+    const claim = await store.reserve(reservation({ xp: 3, xpTotal: 8, amount: 3_000_000n, legacyAccountIds: [ADDRESS] }));
+
+    assert(claim);
+    assertEquals(await store.getAccount(ADDRESS), null);
+    assertEquals((await store.listByAccount("profile:1")).map((c) => c.id).sort(), [claim.id, legacy.id].sort());
+  }));
+
+Deno.test("reserve folds a legacy account that appears after the profile account exists", () =>
+  withStore({}, async (store) => {
+    const claim = await store.reserve(reservation());
+    assert(claim);
+    await store.markMinted(claim.id, "0x01");
+    await store.markConfirmed(claim.id);
+
+    // A newly linked wallet that was paid before claims were keyed by profile
+    const linked = "0x00000000000000000000000000000000000000cc";
+    const imported = { address: linked, amount: 3_000_000n, xp: 3, txHash: "0x02", timestamp: 1_700_000_000_000 };
+    assertEquals(await store.importConfirmed(imported), true);
+
+    assertEquals((await store.getAccount("profile:1", [linked]))?.paidXp, 8);
+    // Its paid XP can't be claimed again through the profile
+    assertEquals(await store.reserve(reservation({ xp: 3, xpTotal: 8, legacyAccountIds: [linked] })), null);
+    const topUp = await store.reserve(reservation({ xp: 2, xpTotal: 10, amount: 2_000_000n, legacyAccountIds: [linked] }));
+
+    assert(topUp);
+    assertEquals(await store.getAccount(linked), null);
+    const account = await store.getAccount("profile:1");
+    assertEquals([account?.paidXp, account?.paidAmount], [8, 8_000_000n]);
+  }));
+
+Deno.test("failing a claim releases its issuance and frees the account without crediting it", () =>
+  withStore({}, async (store) => {
+    const claim = await store.reserve(reservation());
+    assert(claim);
+
+    await store.markFailed(claim.id, "RPC down");
+
+    assertEquals((await store.getIssuanceUsage()).total, 0n);
+    const account = await store.getAccount("profile:1");
+    assertEquals(account?.paidXp, 0);
+    assertEquals(account?.activeClaimId, null);
+    assert(await store.reserve(reservation()));
+  }));
+
+Deno.test("approving a held claim counts it", () =>
+  withStore({ maxPerClaim: 1_000_000n }, async (store) => {
+    const claim = await store.reserve(reservation());
+    assert(claim);
+
+    const approved = await store.approve(claim.id);
+
+    assertEquals(approved.status, "reserved");
+    assertEquals(approved.reviewReason, undefined);
+    assertEquals((await store.getIssuanceUsage()).total, 5_000_000n);
+  }));
+
+Deno.test("transitions outside the state machine are refused", () =>
+  withStore({}, async (store) => {
+    const claim = await store.reserve(reservation());
+    assert(claim);
+
+    await assertRejects(() => store.markConfirmed(claim.id), ClaimTransitionError);
+    await store.markFailed(claim.id, "gave up");
+    await assertRejects(() => store.markMinted(claim.id, "0x01"), ClaimTransitionError);
+    await assertRejects(() => store.markFailed("missing", "gone"), Error, "not found");
+  }));
+
+Deno.test("importConfirmed credits a pre-ledger claim once", () =>
+  withStore({}, async (store) => {
+    const imported = { address: ADDRESS, amount: 5_000_000n, xp: 5, txHash: "0x01", timestamp: 1_700_000_000_000 };
+
+    assertEquals(await store.importConfirmed(imported), true);
+    assertEquals(await store.importConfirmed(imported), false);
+
+    const account = await store.getAccount(ADDRESS);
+    assertEquals(account?.paidXp, 5);
+    assertEquals((await store.listByAccount(ADDRESS))[0].status, "confirmed");
+    // The profile can only claim XP earned since
+    assertEquals(await store.reserve(reservation({ legacyAccountIds: [ADDRESS] })), null);
+    assert(await store.reserve(reservation({ xp: 2, xpTotal: 7, legacyAccountIds: [ADDRESS] })));
+  }));
@@ -0,0 +1,97 @@
+import { assertEquals, assertRejects, assertThrows } from "$std/assert/mod.ts";
+import {
+  discoverCandidates,
+  DiscoveryError,
+  getDiscoveryMinScore,
+  listCandidates,
+  saveCandidateSet,
+} from "../lib/ethos-discovery.ts";
+import { MIN_ETHOS_SCORE } from "../lib/ethos.ts";
+import { mockFetch } from "./mock-fetch.ts";
+
+// Read lazily, on first use
+Deno.env.set("KV_PATH", ":memory:");
+
+const address = (n: number) => `0x${n.toString(16).padStart(40, "0")}`;
+
+// Profile id -> score and linked addresses, with a gap at id 2
+const PROFILES = new Map([
+  [1, { score: 1500, addresses: [address(1), address(2)] }],
+  [3, { score: 900, addresses: [address(3)] }],
+  [4, { score: 2000, addresses: [address(2), `0x${address(4).slice(2).toUpperCase()}`] }],
+]);
+
+function ethos() {
+  return mockFetch({
+    ethos: (path, body) => {
+      if (path === "/api/v2/users/by/profile-id") {
+        const { profileIds } = body as { profileIds: number[] };
+        return profileIds.filter((id) => PROFILES.has(id)).map((id) => ({ profileId: id, score: PROFILES.get(id)!.score }));
+      }
+      const id = Number(path.split("profileId:")[1]);
+      return { allAddresses: { addresses: PROFILES.get(id)?.addresses ?? [] } };
+    },
+  });
+}
+
+Deno.test("discovery keeps profiles at the threshold, credits shared addresses to the lowest profile id", async () => {
+  const fetch = ethos();
+  try {
+    const discovery = await discoverCandidates({ minScore: 1400 });
+
+    assertEquals(discovery.profiles, 2);
+    assertEquals(discovery.lastProfileId, 4);
+    assertEquals(discovery.candidates, [
+      { address: address(1), profileId: 1, score: 1500 },
+      { address: address(2), profileId: 1, score: 1500 },
+      { address: address(4), profileId: 4, score: 2000 },
+    ]);
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("discovery defaults to MIN_ETHOS_SCORE", async () => {
+  assertEquals(getDiscoveryMinScore(), MIN_ETHOS_SCORE);
+
+  const fetch = ethos();
+  try {
+    const discovery = await discoverCandidates();
+    assertEquals(discovery.candidates.map((candidate) => candidate.address).includes(address(3)), false);
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("an unchanged candidate set isn't rewritten", async () => {
+  const fetch = ethos();
+  try {
+    const first = await saveCandidateSet(await discoverCandidates({ minScore: 1400 }));
+    const second = await saveCandidateSet(await discoverCandidates({ minScore: 1400 }));
+
+    assertEquals(first.changed, true);
+    assertEquals(second.changed, false);
+    assertEquals(second.set.generation, first.set.generation);
+    assertEquals((await listCandidates()).length, 3);
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("a failed Ethos call fails the whole discovery", async () => {
+  const fetch = mockFetch({ ethos: () => new Response("unavailable", { status: 503 }) });
+  try {
+    await assertRejects(() => discoverCandidates({ minScore: 0 }), Error, "Ethos API error: 503");
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("a malformed discovery threshold is refused", () => {
+  Deno.env.set("ETHOS_DISCOVERY_MIN_SCORE", "high");
+  try {
+    assertThrows(() => getDiscoveryMinScore(), DiscoveryError);
+  } finally {
+    Deno.env.delete("ETHOS_DISCOVERY_MIN_SCORE");
+  }
+});
@@ -0,0 +1,51 @@
+import { assertEquals, assertThrows } from "$std/assert/mod.ts";
+import { checkIssuance, getIssuanceLimits, issuanceKeys } from "../lib/issuance.ts";
+
+const usage = { total: 900n, day: 90n, hour: 9n };
+
+Deno.test("no limits let any claim through", () => {
+  assertEquals(checkIssuance({}, usage, 1_000_000n), null);
+});
+
+Deno.test("a claim may reach a limit but not pass it", () => {
+  const limits = { supplyCeiling: 1000n, dailyBudget: 100n, hourlyBudget: 10n, maxPerClaim: 1n };
+
+  assertEquals(checkIssuance(limits, usage, 1n), null);
+  assertEquals(checkIssuance({ ...limits, maxPerClaim: undefined }, usage, 2n), "hourlyBudget");
+  assertEquals(checkIssuance({ hourlyBudget: 10n }, usage, 1n), null);
+  assertEquals(checkIssuance({ hourlyBudget: 10n }, usage, 2n), "hourlyBudget");
+  assertEquals(checkIssuance({ dailyBudget: 100n }, usage, 11n), "dailyBudget");
+  assertEquals(checkIssuance({ supplyCeiling: 1000n }, usage, 101n), "supplyCeiling");
+});
+
+Deno.test("the per-claim maximum is reported before the budgets", () => {
+  const limits = { supplyCeiling: 1000n, dailyBudget: 100n, hourlyBudget: 10n, maxPerClaim: 50n };
+  assertEquals(checkIssuance(limits, usage, 500n), "maxPerClaim");
+  assertEquals(checkIssuance({ ...limits, maxPerClaim: undefined }, usage, 500n), "supplyCeiling");
+});
+
+Deno.test("limits are read as whole ethosUSD", () => {
+  Deno.env.set("CLAIM_DAILY_BUDGET", "250");
+  Deno.env.set("CLAIM_MAX_PER_CLAIM", "1.5");
+  try {
+    assertThrows(() => getIssuanceLimits(), Error, "CLAIM_MAX_PER_CLAIM must be a whole number");
+    Deno.env.delete("CLAIM_MAX_PER_CLAIM");
+    assertEquals(getIssuanceLimits(), {
+      supplyCeiling: undefined,
+      dailyBudget: 250_000_000n,
+      hourlyBudget: undefined,
+      maxPerClaim: undefined,
+    });
+  } finally {
+    Deno.env.delete("CLAIM_DAILY_BUDGET");
+    Deno.env.delete("CLAIM_MAX_PER_CLAIM");
+  }
+});
+
+Deno.test("usage is bucketed by UTC day and hour", () => {
+  assertEquals(issuanceKeys(Date.parse("2026-03-04T23:59:59+01:00")), {
+    total: ["issuance", "total"],
+    day: ["issuance", "day", "2026-03-04"],
+    hour: ["issuance", "hour", "2026-03-04T22"],
+  });
+});
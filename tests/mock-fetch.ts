@@ -0,0 +1,126 @@
+// Test doubles for the network - the Tempo RPC and the Ethos API are both
+// reached through fetch, so tests replace globalThis.fetch instead of the
+// clients. RPC handlers get the JSON-RPC method and params and return the
+// result; throwing an RpcError answers with a JSON-RPC error instead.
+
+export class RpcError extends Error {
+  constructor(message: string, readonly code = -32000) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+export type RpcHandler = (method: string, params: unknown[]) => unknown | Promise<unknown>;
+
+// Ethos API handler: the request path and parsed JSON body (undefined for GET).
+// Returning a Response sends it as is; anything else is sent as JSON.
+export type EthosHandler = (path: string, body: unknown) => unknown | Promise<unknown>;
+
+export interface MockFetch {
+  rpcCalls: { method: string; params: unknown[] }[];
+  restore(): void;
+}
+
+const ETHOS_API_BASE = "https://api.ethos.network";
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+async function answerRpc(
+  request: { id: number; method: string; params?: unknown[] },
+  rpc: RpcHandler | undefined,
+  calls: MockFetch["rpcCalls"]
+) {
+  const params = request.params ?? [];
+  calls.push({ method: request.method, params });
+  try {
+    if (!rpc) {
+      throw new RpcError(`Unexpected RPC call ${request.method}`);
+    }
+    return { jsonrpc: "2.0", id: request.id, result: await rpc(request.method, params) };
+  } catch (error) {
+    const code = error instanceof RpcError ? error.code : -32603;
+    return { jsonrpc: "2.0", id: request.id, error: { code, message: String(error) } };
+  }
+}
+
+// Replace fetch until restore() is called. Requests to anything but the
+// Ethos API are treated as JSON-RPC.
+export function mockFetch(handlers: { rpc?: RpcHandler; ethos?: EthosHandler }): MockFetch {
+  const original = globalThis.fetch;
+  const rpcCalls: MockFetch["rpcCalls"] = [];
+
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const text = request.method === "GET" ? "" : await request.text();
+    const body = text ? JSON.parse(text) : undefined;
+
+    if (request.url.startsWith(ETHOS_API_BASE)) {
+      if (!handlers.ethos) {
+        return json({ error: "Unexpected Ethos API call" }, 500);
+      }
+      const result = await handlers.ethos(request.url.slice(ETHOS_API_BASE.length), body);
+      return result instanceof Response ? result : json(result);
+    }
+
+    if (Array.isArray(body)) {
+      return json(await Promise.all(body.map((item) => answerRpc(item, handlers.rpc, rpcCalls))));
+    }
+    return json(await answerRpc(body, handlers.rpc, rpcCalls));
+  };
+
+  return {
+    rpcCalls,
+    restore() {
+      globalThis.fetch = original;
+    },
+  };
+}
+
+// A block in JSON-RPC form, stamped one second per block number
+export function rpcBlock(number: bigint) {
+  return {
+    baseFeePerGas: "0x1",
+    difficulty: "0x0",
+    extraData: "0x",
+    gasLimit: "0x1c9c380",
+    gasUsed: "0x0",
+    hash: `0x${number.toString(16).padStart(64, "0")}`,
+    logsBloom: `0x${"00".repeat(256)}`,
+    miner: `0x${"00".repeat(20)}`,
+    mixHash: `0x${"00".repeat(32)}`,
+    nonce: "0x0000000000000000",
+    number: `0x${number.toString(16)}`,
+    parentHash: `0x${"00".repeat(32)}`,
+    receiptsRoot: `0x${"00".repeat(32)}`,
+    sha3Uncles: `0x${"00".repeat(32)}`,
+    size: "0x0",
+    stateRoot: `0x${"00".repeat(32)}`,
+    timestamp: `0x${number.toString(16)}`,
+    totalDifficulty: "0x0",
+    transactions: [],
+    transactionsRoot: `0x${"00".repeat(32)}`,
+    uncles: [],
+  };
+}
+
+// A mined transaction receipt in JSON-RPC form
+export function rpcReceipt(hash: string, status: "success" | "reverted" = "success") {
+  return {
+    blockHash: `0x${"ab".repeat(32)}`,
+    blockNumber: "0x10",
+    contractAddress: null,
+    cumulativeGasUsed: "0x5208",
+    effectiveGasPrice: "0x1",
+    from: `0x${"11".repeat(20)}`,
+    gasUsed: "0x5208",
+    logs: [],
+    logsBloom: `0x${"00".repeat(256)}`,
+    status: status === "success" ? "0x1" : "0x0",
+    to: `0x${"22".repeat(20)}`,
+    transactionHash: hash,
+    transactionIndex: "0x0",
+    type: "0x2",
+  };
+}
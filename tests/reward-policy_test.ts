@@ -0,0 +1,92 @@
+import { assertEquals, assertRejects, assertThrows } from "$std/assert/mod.ts";
+import {
+  computeReward,
+  DEFAULT_REWARD_POLICY,
+  getRecordedPolicy,
+  getRewardPolicy,
+  parseRewardPolicy,
+  type RewardPolicy,
+  RewardPolicyError,
+} from "../lib/reward-policy.ts";
+import { getKv } from "../lib/kv.ts";
+
+// Read lazily, on first use
+Deno.env.set("KV_PATH", ":memory:");
+
+const policyPath = await Deno.makeTempFile({ suffix: ".json" });
+Deno.env.set("REWARD_POLICY_PATH", policyPath);
+globalThis.addEventListener("unload", () => Deno.removeSync(policyPath));
+
+const POLICY = parseRewardPolicy({
+  version: "2",
+  tokensPerXp: 2,
+  scoreMultipliers: { neutral: 1.5, exemplary: 3 },
+  minScore: 1200,
+  maxPerUser: 100,
+  globalBudget: 1000,
+  decay: [{ from: "2026-06-01", factor: 0.25 }, { from: "2026-01-01", factor: 0.5 }],
+});
+
+const BEFORE_DECAY = Date.parse("2025-12-01");
+const input = { xp: 10, score: 1400, paidAmount: 0n, totalIssued: 0n, now: BEFORE_DECAY };
+
+Deno.test("a policy file is filled in with the defaults and its decay steps sorted", () => {
+  assertEquals(POLICY.scoreMultipliers.untrusted, 1);
+  assertEquals(POLICY.decay.map((step) => step.factor), [0.5, 0.25]);
+  assertThrows(() => parseRewardPolicy({ tokensPerXp: 1 }), RewardPolicyError, "string version");
+  assertThrows(() => parseRewardPolicy({ version: "3", tokensPerXp: -1 }), RewardPolicyError);
+  assertThrows(() => parseRewardPolicy({ version: "3", decay: [{ from: "soon", factor: 1 }] }), RewardPolicyError);
+});
+
+Deno.test("the default policy pays 1 ethosUSD per XP", () => {
+  assertEquals(computeReward(DEFAULT_REWARD_POLICY, { ...input, score: 0 }), {
+    amount: 10_000_000n,
+    policyVersion: "1",
+    multiplier: 1,
+    cappedBy: undefined,
+  });
+});
+
+Deno.test("rewards scale with the score level and the decay step in effect", () => {
+  assertEquals(computeReward(POLICY, input).amount, 30_000_000n);
+  assertEquals(computeReward(POLICY, { ...input, score: 2100 }).amount, 60_000_000n);
+  assertEquals(computeReward(POLICY, { ...input, now: Date.parse("2026-03-01") }).amount, 15_000_000n);
+  assertEquals(computeReward(POLICY, { ...input, now: Date.parse("2026-07-01") }).multiplier, 0.375);
+});
+
+Deno.test("a score below the policy minimum can't claim", () => {
+  const result = computeReward(POLICY, { ...input, score: 1100 });
+  assertEquals(result.amount, 0n);
+  assertEquals(result.error, "An Ethos score of at least 1200 is required to claim.");
+});
+
+Deno.test("rewards are capped by what is left of the per-user cap and the budget", () => {
+  const perUser = computeReward(POLICY, { ...input, paidAmount: 80_000_000n });
+  assertEquals([perUser.amount, perUser.cappedBy], [20_000_000n, "maxPerUser"]);
+
+  const budget = computeReward(POLICY, { ...input, totalIssued: 990_000_000n });
+  assertEquals([budget.amount, budget.cappedBy], [10_000_000n, "globalBudget"]);
+
+  assertEquals(computeReward(POLICY, { ...input, paidAmount: 100_000_000n }).error, "You've reached the maximum ethosUSD a profile can claim.");
+  assertEquals(computeReward(POLICY, { ...input, totalIssued: 1000_000_000n }).error, "The ethosUSD reward budget has been fully claimed.");
+});
+
+Deno.test("a version already used for claims can't be edited", async () => {
+  const kv = await getKv();
+  await Deno.writeTextFile(policyPath, JSON.stringify(POLICY));
+  await kv.set(["reward_policies", "2"], { ...POLICY, tokensPerXp: 1 } satisfies RewardPolicy);
+
+  await assertRejects(() => getRewardPolicy(), RewardPolicyError, "bump its version");
+  assertEquals((await getRecordedPolicy("2"))?.tokensPerXp, 1);
+});
+
+Deno.test("a recorded version matches the policy file regardless of key order", async () => {
+  const kv = await getKv();
+  // As recorded by an older build that built the policy in another key order
+  const reordered = Object.fromEntries(Object.entries(POLICY).reverse()) as RewardPolicy;
+  await kv.set(["reward_policies", "2"], reordered);
+  await Deno.writeTextFile(policyPath, JSON.stringify(POLICY));
+
+  assertEquals(await getRewardPolicy(), POLICY);
+  assertEquals(await getRecordedPolicy("2"), POLICY);
+});
@@ -0,0 +1,163 @@
+import { assertEquals, assertRejects, assertThrows } from "$std/assert/mod.ts";
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  type Hex,
+  zeroAddress,
+} from "viem";
+import { CONTRACTS, TIP20_ABI, TIP403_REGISTRY_ABI } from "../lib/contracts.ts";
+import { getTransferAllowance, syncTransferIndex, TransferIndexError } from "../lib/transfer-limits.ts";
+import { getKv } from "../lib/kv.ts";
+import { getTierPolicies, getTierRange, TierConfigError } from "../lib/whitelist-tiers.ts";
+import { mockFetch, RpcError, rpcBlock } from "./mock-fetch.ts";
+
+// Read lazily, on first use
+Deno.env.set("KV_PATH", ":memory:");
+Deno.env.set("ETHOS_TIER_POLICY_IDS", "neutral:146, reputable:147");
+Deno.env.set("TIER_DAILY_LIMIT_NEUTRAL", "100");
+
+// Blocks are stamped one second per block number (see rpcBlock), so the head
+// is now and the index only has the last 100 blocks to walk
+const HEAD = BigInt(Math.floor(Date.now() / 1000));
+Deno.env.set("ETHOS_USD_START_BLOCK", `${HEAD - 100n}`);
+
+const kv = await getKv();
+
+const address = (n: number) => `0x${n.toString(16).padStart(40, "0")}`;
+const hash = (n: number) => `0x${n.toString(16).padStart(64, "0")}`;
+const ethosUsd = (amount: bigint) => amount * 1_000_000n;
+
+// An ethosUSD Transfer log
+function rpcTransfer(from: string, value: bigint, block: bigint, logIndex: number) {
+  return {
+    address: CONTRACTS.ETHOS_USD_TOKEN.toLowerCase(),
+    topics: encodeEventTopics({
+      abi: TIP20_ABI,
+      eventName: "Transfer",
+      args: { from: from as Hex, to: address(0xbb) as Hex },
+    }) as Hex[],
+    data: encodeAbiParameters([{ type: "uint256" }], [value]),
+    blockNumber: `0x${block.toString(16)}`,
+    blockHash: rpcBlock(block).hash,
+    transactionHash: hash(Number(block) * 100 + logIndex),
+    transactionIndex: "0x0",
+    logIndex: `0x${logIndex.toString(16)}`,
+    removed: false,
+  };
+}
+
+// A chain where `members` maps each tier policy id to its members, and the
+// token emitted `transfers`
+function chain(members: Map<bigint, string[]>, transfers: ReturnType<typeof rpcTransfer>[] = []) {
+  return mockFetch({
+    rpc: (method, params) => {
+      switch (method) {
+        case "eth_call": {
+          const { args } = decodeFunctionData({
+            abi: TIP403_REGISTRY_ABI,
+            data: (params[0] as { data: Hex }).data,
+          });
+          const [policyId, account] = args as [bigint, string];
+          return encodeFunctionResult({
+            abi: TIP403_REGISTRY_ABI,
+            functionName: "isAuthorized",
+            result: members.get(policyId)?.includes(account.toLowerCase()) ?? false,
+          });
+        }
+        case "eth_blockNumber":
+          return `0x${HEAD.toString(16)}`;
+        case "eth_getLogs": {
+          const { fromBlock, toBlock } = params[0] as { fromBlock: Hex; toBlock: Hex };
+          return transfers.filter((log) =>
+            BigInt(log.blockNumber) >= BigInt(fromBlock) && BigInt(log.blockNumber) <= BigInt(toBlock)
+          );
+        }
+        case "eth_getBlockByNumber":
+          return rpcBlock(BigInt(params[0] as string));
+        default:
+          throw new RpcError(`Unexpected ${method}`);
+      }
+    },
+  });
+}
+
+Deno.test("tiers split the whitelist by score level", () => {
+  // The lowest tier starts at MIN_ETHOS_SCORE, not the bottom of "neutral"
+  assertEquals(getTierRange("neutral"), { tier: "neutral", minScore: 1400, maxScore: 1600 });
+  assertEquals(getTierRange("reputable"), { tier: "reputable", minScore: 1600, maxScore: 2000 });
+  assertEquals(getTierRange("exemplary"), { tier: "exemplary", minScore: 2000, maxScore: null });
+});
+
+Deno.test("tier policies are read from the environment, lowest tier first", () => {
+  assertEquals(getTierPolicies().map(({ tier, policyId, dailyLimit }) => ({ tier, policyId, dailyLimit })), [
+    { tier: "neutral", policyId: 146n, dailyLimit: ethosUsd(100n) },
+    { tier: "reputable", policyId: 147n, dailyLimit: null },
+  ]);
+
+  Deno.env.set("ETHOS_TIER_POLICY_IDS", "trusted:146");
+  try {
+    assertThrows(() => getTierPolicies(), TierConfigError, `Unknown tier "trusted"`);
+    Deno.env.set("ETHOS_TIER_POLICY_IDS", "neutral:0");
+    assertThrows(() => getTierPolicies(), TierConfigError, "Invalid policy id for neutral");
+    Deno.env.set("ETHOS_TIER_POLICY_IDS", "neutral:146");
+    Deno.env.set("TIER_DAILY_LIMIT_NEUTRAL", "1.5");
+    assertThrows(() => getTierPolicies(), TierConfigError, "TIER_DAILY_LIMIT_NEUTRAL must be a whole number");
+  } finally {
+    Deno.env.set("ETHOS_TIER_POLICY_IDS", "neutral:146, reputable:147");
+    Deno.env.set("TIER_DAILY_LIMIT_NEUTRAL", "100");
+
+// Blocks are stamped one second per block number (see rpcBlock), so the head
+// is now and the index only has the last 100 blocks to walk
+const HEAD = BigInt(Math.floor(Date.now() / 1000));
+Deno.env.set("ETHOS_USD_START_BLOCK", `${HEAD - 100n}`);
+  }
+});
+
+Deno.test("a limited allowance waits for the transfer index", async () => {
+  const fetch = chain(new Map([[146n, [address(1), address(2)]], [147n, [address(2)]]]));
+  try {
+    // Usage would be undercounted before the index has caught up
+    await assertRejects(() => getTransferAllowance(address(1)), TransferIndexError);
+
+    // The highest tier an address is on wins; without a limit, usage isn't needed
+    const reputable = await getTransferAllowance(address(2));
+    assertEquals([reputable.tier, reputable.remaining], ["reputable", null]);
+    // Not on any tier: no limit
+    assertEquals((await getTransferAllowance(address(3))).dailyLimit, null);
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("indexed transfers count against the sender's day", async () => {
+  const sender = address(11);
+  const fetch = chain(new Map([[146n, [address(1), sender]]]), [
+    rpcTransfer(sender, ethosUsd(30n), HEAD - 50n, 0),
+    rpcTransfer(sender, ethosUsd(10n), HEAD - 50n, 1),
+    rpcTransfer(sender, ethosUsd(70n), HEAD - 10n, 0),
+    // A mint has no sender to charge
+    rpcTransfer(zeroAddress, ethosUsd(500n), HEAD - 5n, 0),
+  ]);
+  try {
+    assertEquals((await syncTransferIndex()).indexedToBlock, Number(HEAD));
+    // Indexing the same blocks again changes nothing
+    await kv.delete(["transfer_index", CONTRACTS.ETHOS_USD_TOKEN.toLowerCase()]);
+    await syncTransferIndex();
+
+    assertEquals(await getTransferAllowance(address(1)), {
+      address: address(1),
+      tier: "neutral",
+      dailyLimit: ethosUsd(100n),
+      sentToday: 0n,
+      remaining: ethosUsd(100n),
+    });
+    const allowance = await getTransferAllowance(sender);
+    assertEquals(allowance.sentToday, ethosUsd(110n));
+    // Over the limit is reported as nothing left, not a negative amount
+    assertEquals(allowance.remaining, 0n);
+  } finally {
+    fetch.restore();
+  }
+});
@@ -0,0 +1,95 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import { encodeFunctionResult } from "viem";
+import { TIP403_REGISTRY_ABI } from "../lib/contracts.ts";
+import {
+  createWhitelistJob,
+  loadWhitelistJob,
+  runWhitelistJob,
+  summarizeWhitelistJob,
+} from "../lib/whitelist-jobs.ts";
+import { mockFetch, RpcError, rpcReceipt } from "./mock-fetch.ts";
+
+// Read lazily, on first use
+Deno.env.set("KV_PATH", ":memory:");
+Deno.env.set("ADMIN_PRIVATE_KEY", `0x${"01".repeat(32)}`);
+
+const jobsDir = await Deno.makeTempDir();
+Deno.env.set("WHITELIST_JOBS_DIR", jobsDir);
+globalThis.addEventListener("unload", () => Deno.removeSync(jobsDir, { recursive: true }));
+
+const address = (n: number) => `0x${n.toString(16).padStart(40, "0")}`;
+const hash = (n: number) => `0x${n.toString(16).padStart(64, "0")}`;
+
+// Append the state lines an interrupted run would have left, ending in a
+// line cut off mid-write
+async function interruptRun(path: string) {
+  const at = new Date().toISOString();
+  const lines = [
+    { type: "state", address: address(1), state: "sent", txHash: hash(1), nonce: 5, at },
+    { type: "state", address: address(1), state: "confirmed", txHash: hash(1), at },
+    { type: "state", address: address(2), state: "sent", txHash: hash(2), nonce: 6, at },
+    { type: "state", address: address(3), state: "sent", txHash: hash(3), nonce: 7, at },
+    { type: "state", address: address(4), state: "sent", txHash: hash(4), nonce: 8, at },
+    { type: "state", address: address(5), state: "failed", error: "Transaction reverted", at },
+  ];
+  await Deno.writeTextFile(
+    path,
+    lines.map((line) => JSON.stringify(line) + "\n").join("") + `{"type":"state","addr`,
+    { append: true }
+  );
+}
+
+Deno.test("a resumed job settles sent addresses by receipt and nonce before sending anything", async () => {
+  const changes = [1, 2, 3, 4, 5].map((n) => ({ address: address(n), allowed: true }));
+  const created = await createWhitelistJob({ policyId: 145n, changes });
+  await interruptRun(created.path);
+
+  const job = await loadWhitelistJob(created.id);
+  assertEquals(summarizeWhitelistJob(job!), { id: created.id, total: 5, pending: 0, sent: 3, confirmed: 1, skipped: 0, failed: 1 });
+
+  const fetch = mockFetch({
+    rpc: (method, params) => {
+      switch (method) {
+        // Nonces 0-7 are used (6 and 7 landed or were replaced); 8 hasn't been mined
+        case "eth_getTransactionCount":
+          return "0x8";
+        case "eth_getTransactionReceipt":
+          if (params[0] === hash(2)) return rpcReceipt(hash(2));
+          if (params[0] === hash(3)) return null;
+          throw new RpcError("rate limited");
+        // Every address already holds its desired state
+        case "eth_call":
+          return encodeFunctionResult({ abi: TIP403_REGISTRY_ABI, functionName: "isAuthorized", result: true });
+        default:
+          throw new RpcError(`Unexpected ${method}`);
+      }
+    },
+  });
+  try {
+    const summary = await runWhitelistJob(job!);
+
+    // 2 confirmed by its receipt; 3 was dropped and 5 failed, and both turned
+    // out to be in place already; 4 couldn't be checked and stays sent
+    assertEquals(summary, { id: created.id, total: 5, pending: 0, sent: 1, confirmed: 2, skipped: 2, failed: 0 });
+    assertEquals(job!.entries.get(address(4))?.state, "sent");
+    assertEquals(fetch.rpcCalls.some((call) => call.method === "eth_sendRawTransaction"), false);
+  } finally {
+    fetch.restore();
+  }
+
+  // The checkpoint replays to the same state
+  assertEquals(summarizeWhitelistJob((await loadWhitelistJob(created.id))!).confirmed, 2);
+  assertEquals((await loadWhitelistJob(created.id))!.entries.get(address(3))?.state, "skipped");
+});
+
+Deno.test("creating a job with the same changes resumes it", async () => {
+  const changes = [{ address: address(10), allowed: false }];
+  const created = await createWhitelistJob({ policyId: 145n, changes });
+  const resumed = await createWhitelistJob({
+    policyId: 145n,
+    changes: [{ address: `0x${address(10).slice(2).toUpperCase()}`, allowed: false }],
+  });
+
+  assertEquals(resumed.id, created.id);
+  assertEquals(resumed.path, created.path);
+});
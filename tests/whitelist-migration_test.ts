@@ -0,0 +1,181 @@
+import { assertEquals } from "$std/assert/mod.ts";
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  type Hex,
+} from "viem";
+import { CONTRACTS, POLICY_TYPE, TIP20_ABI, TIP403_REGISTRY_ABI } from "../lib/contracts.ts";
+import { diffPolicies, preparePolicyMigration, verifyPolicyMembers } from "../lib/whitelist-migration.ts";
+import { mockFetch, RpcError, rpcBlock } from "./mock-fetch.ts";
+
+// Read lazily, on first use
+Deno.env.set("KV_PATH", ":memory:");
+
+const address = (n: number) => `0x${n.toString(16).padStart(40, "0")}`;
+const ADMIN = address(0xad);
+const HEAD = 0x20n;
+
+// WhitelistUpdated events on the registry, in block order
+interface WhitelistEvent {
+  policyId: bigint;
+  account: string;
+  allowed: boolean;
+  block: bigint;
+}
+
+function rpcLog(event: WhitelistEvent, logIndex: number) {
+  return {
+    address: CONTRACTS.TIP403_REGISTRY.toLowerCase(),
+    topics: encodeEventTopics({
+      abi: TIP403_REGISTRY_ABI,
+      eventName: "WhitelistUpdated",
+      args: { policyId: event.policyId, updater: ADMIN as Hex, account: event.account as Hex },
+    }) as Hex[],
+    data: encodeAbiParameters([{ type: "bool" }], [event.allowed]),
+    blockNumber: `0x${event.block.toString(16)}`,
+    blockHash: rpcBlock(event.block).hash,
+    transactionHash: `0x${(event.block * 100n + BigInt(logIndex)).toString(16).padStart(64, "0")}`,
+    transactionIndex: "0x0",
+    logIndex: `0x${logIndex.toString(16)}`,
+    removed: false,
+  };
+}
+
+// Whether a log matches an eth_getLogs topic filter (null = any, array = one of)
+function matchesTopics(topics: Hex[], filter: (Hex | Hex[] | null)[] = []) {
+  return filter.every((wanted, i) =>
+    wanted === null || (Array.isArray(wanted) ? wanted.includes(topics[i]) : wanted === topics[i])
+  );
+}
+
+// A chain where the token uses tokenPolicyId, the registry answers
+// isAuthorized from `authorized` (policy id -> members; reads for anything
+// in `unreadable` fail) and emitted `events`. Policies in `blacklists` are
+// blacklists, the rest whitelists.
+function chain(
+  tokenPolicyId: bigint,
+  authorized: Map<bigint, string[]>,
+  events: WhitelistEvent[],
+  unreadable: string[] = [],
+  blacklists: bigint[] = []
+) {
+  const logs = events.map(rpcLog);
+  return mockFetch({
+    rpc: (method, params) => {
+      switch (method) {
+        case "eth_blockNumber":
+          return `0x${HEAD.toString(16)}`;
+        case "eth_getBlockByNumber":
+          return rpcBlock(BigInt(params[0] as string));
+        case "eth_getLogs": {
+          const filter = params[0] as { fromBlock: Hex; toBlock: Hex; topics?: (Hex | Hex[] | null)[] };
+          return logs.filter((log) =>
+            BigInt(log.blockNumber) >= BigInt(filter.fromBlock) &&
+            BigInt(log.blockNumber) <= BigInt(filter.toBlock) &&
+            matchesTopics(log.topics, filter.topics)
+          );
+        }
+        case "eth_call": {
+          const call = params[0] as { to: string; data: Hex };
+          if (call.to.toLowerCase() === CONTRACTS.ETHOS_USD_TOKEN.toLowerCase()) {
+            return encodeFunctionResult({ abi: TIP20_ABI, functionName: "transferPolicyId", result: tokenPolicyId });
+          }
+          const { functionName, args } = decodeFunctionData({ abi: TIP403_REGISTRY_ABI, data: call.data });
+          const [policyId, account] = args as [bigint, string];
+          if (functionName === "policyData") {
+            const type = blacklists.includes(policyId) ? POLICY_TYPE.BLACKLIST : POLICY_TYPE.WHITELIST;
+            return encodeFunctionResult({ abi: TIP403_REGISTRY_ABI, functionName, result: [type, ADMIN as Hex] });
+          }
+          if (unreadable.includes(account.toLowerCase())) {
+            throw new RpcError("execution timeout");
+          }
+          return encodeFunctionResult({
+            abi: TIP403_REGISTRY_ABI,
+            functionName: "isAuthorized",
+            result: authorized.get(policyId)?.includes(account.toLowerCase()) ?? false,
+          });
+        }
+        default:
+          throw new RpcError(`Unexpected ${method}`);
+      }
+    },
+  });
+}
+
+// Old policy 10: 1, 2 and 3 added, then 3 removed. New policy 20: 2 and 4.
+const EVENTS: WhitelistEvent[] = [
+  { policyId: 10n, account: address(1), allowed: true, block: 0x2n },
+  { policyId: 10n, account: address(2), allowed: true, block: 0x2n },
+  { policyId: 10n, account: address(3), allowed: true, block: 0x3n },
+  { policyId: 20n, account: address(2), allowed: true, block: 0x4n },
+  { policyId: 10n, account: address(3), allowed: false, block: 0x5n },
+  { policyId: 20n, account: address(4), allowed: true, block: 0x6n },
+];
+
+Deno.test("verify reports expected members that aren't authorized, and reads that failed", async () => {
+  const fetch = chain(10n, new Map([[20n, [address(2), address(4)]]]), [], [address(5)]);
+  try {
+    const verification = await verifyPolicyMembers(20n, [address(2), address(4), address(1), address(5), address(2)]);
+
+    assertEquals(verification.expected, 4);
+    assertEquals(verification.authorized, 2);
+    assertEquals(verification.missing, [address(1)]);
+    assertEquals(verification.errors.length, 1);
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("diff compares the members rebuilt from each policy's events", async () => {
+  const fetch = chain(10n, new Map(), EVENTS);
+  try {
+    assertEquals(await diffPolicies(10n, 20n), {
+      fromPolicyId: "10",
+      toPolicyId: "20",
+      both: 1,
+      onlyFrom: [address(1)],
+      onlyTo: [address(4)],
+    });
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("a migration is blocked until the new policy covers everyone", async () => {
+  const authorized = new Map([[20n, [address(2), address(4)]]]);
+  const fetch = chain(10n, authorized, EVENTS);
+  try {
+    const missing = await preparePolicyMigration(20n, [address(1), address(2)], { operator: "test" });
+    assertEquals(missing.status, "blocked");
+    assertEquals(missing.blocked, "1 expected members are not authorized on policy 20");
+
+    // Everyone expected is there, but a member of the old policy isn't
+    const removals = await preparePolicyMigration(20n, [address(2), address(4)], { operator: "test" });
+    assertEquals(removals.status, "blocked");
+    assertEquals(removals.blocked, "1 members of policy 10 are not on policy 20 and would lose transfer access");
+
+    const allowed = await preparePolicyMigration(20n, [address(2), address(4)], { operator: "test", allowRemovals: true });
+    assertEquals(allowed.status, "verified");
+    assertEquals(allowed.blocked, null);
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test("moving to a blacklist loses the old members it restricts", async () => {
+  // Policy 30 restricts 2 and nobody else
+  const fetch = chain(10n, new Map([[30n, [address(1), address(3), address(4)]]]), EVENTS, [], [30n]);
+  try {
+    assertEquals(await diffPolicies(10n, 30n), {
+      fromPolicyId: "10",
+      toPolicyId: "30",
+      both: 1,
+      onlyFrom: [address(2)],
+      onlyTo: [],
+    });
+  } finally {
+    fetch.restore();
+  }
+});
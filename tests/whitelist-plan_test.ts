@@ -0,0 +1,268 @@
+import { assertEquals, assertRejects } from "$std/assert/mod.ts";
+import { decodeFunctionData, encodeFunctionResult } from "viem";
+import { TIP403_REGISTRY_ABI } from "../lib/contracts.ts";
+import { getKv } from "../lib/kv.ts";
+import { DiscoveryError } from "../lib/ethos-discovery.ts";
+import { loadCandidateAddresses, planWhitelistSync, type WhitelistSyncOptions } from "../lib/whitelist.ts";
+import { removeWhitelistOverride, setWhitelistOverride, type WhitelistOverride } from "../lib/whitelist-overrides.ts";
+import { mockFetch, RpcError } from "./mock-fetch.ts";
+
+// Read lazily, on first use
+Deno.env.set("KV_PATH", ":memory:");
+Deno.env.set("ADMIN_PRIVATE_KEY", `0x${"01".repeat(32)}`);
+
+const kv = await getKv();
+
+const address = (n: number) => `0x${n.toString(16).padStart(40, "0")}`;
+
+interface Holder {
+  score?: number; // No Ethos score when unset
+  authorized: boolean; // On the policy (not restricted, on a blacklist)
+  ethosDown?: boolean; // The score lookup for this address fails
+}
+
+// Plan a sync of these addresses (all holders by default) against a stubbed
+// Ethos API and registry. Policy 145 is a whitelist unless options say otherwise.
+async function plan(
+  holders: Map<string, Holder>,
+  options: WhitelistSyncOptions = {},
+  candidates = [...holders.keys()]
+) {
+  const fetch = mockFetch({
+    ethos: (_path, body) => {
+      const { addresses } = body as { addresses: string[] };
+      if (addresses.some((a) => holders.get(a)?.ethosDown)) {
+        return new Response("unavailable", { status: 503 });
+      }
+      return Object.fromEntries(addresses.flatMap((a) => {
+        const score = holders.get(a)?.score;
+        return score === undefined ? [] : [[a, { score }]];
+      }));
+    },
+    rpc: (method, params) => {
+      switch (method) {
+        case "eth_call": {
+          const { args } = decodeFunctionData({
+            abi: TIP403_REGISTRY_ABI,
+            data: (params[0] as { data: `0x${string}` }).data,
+          });
+          const account = (args![1] as string).toLowerCase();
+          return encodeFunctionResult({
+            abi: TIP403_REGISTRY_ABI,
+            functionName: "isAuthorized",
+            result: holders.get(account)?.authorized ?? false,
+          });
+        }
+        case "eth_gasPrice":
+          return "0x1";
+        case "eth_estimateGas":
+          return "0x5208";
+        default:
+          throw new RpcError(`Unexpected ${method}`);
+      }
+    },
+  });
+  try {
+    const result = await planWhitelistSync(candidates, {
+      policyId: 145n,
+      policyType: "whitelist",
+      scoreBatchSize: 1,
+      ...options,
+    });
+    // Reads settle in any order
+    result.changes.sort((a, b) => a.address.localeCompare(b.address));
+    return result;
+  } finally {
+    fetch.restore();
+  }
+}
+
+Deno.test("a plan adds eligible addresses and holds fresh drops for the grace period", async () => {
+  const result = await plan(
+    new Map([
+      [address(1), { score: 1500, authorized: false }],
+      [address(2), { score: 1000, authorized: true }],
+      [address(3), { score: 1500, authorized: true }],
+      [address(4), { score: 1350, authorized: true }],
+      [address(5), { score: 1350, authorized: false }],
+    ]),
+    { removeBelowScore: 1300, removalGraceMs: 60_000, maxRemovalPercent: 100 }
+  );
+
+  assertEquals(result.changes.map(({ address, allowed, reason }) => ({ address, allowed, reason })), [
+    { address: address(1), allowed: true, reason: "new_address" },
+  ]);
+  // Between the removal threshold and MIN_ETHOS_SCORE a member stays put
+  assertEquals(result.held.map((held) => held.address), [address(2)]);
+  assertEquals(result.unchanged, 4);
+  assertEquals(result.blocked, null);
+});
+
+Deno.test("a plan removes members once their grace period is over", async () => {
+  const result = await plan(
+    new Map([
+      [address(11), { score: 1000, authorized: true }],
+      [address(12), { authorized: true }],
+      [address(13), { score: 1500, authorized: true }],
+    ]),
+    { removeBelowScore: 1300, removalGraceMs: 0, maxRemovalPercent: 100 }
+  );
+
+  assertEquals(result.changes.map(({ address, allowed, reason }) => ({ address, allowed, reason })), [
+    { address: address(11), allowed: false, reason: "below_min_score" },
+    { address: address(12), allowed: false, reason: "no_score" },
+  ]);
+});
+
+Deno.test("the grace period runs from the first sync that saw the drop", async () => {
+  const longAgo = new Date(Date.now() - 2 * 60_000).toISOString();
+  await kv.set(["whitelist_scores", address(21)], { score: 1000, checkedAt: longAgo, belowSince: longAgo });
+
+  const result = await plan(
+    new Map([
+      [address(21), { score: 1000, authorized: true }],
+      [address(22), { score: 1000, authorized: true }],
+    ]),
+    { removeBelowScore: 1300, removalGraceMs: 60_000, maxRemovalPercent: 100 }
+  );
+
+  assertEquals(result.changes.map((change) => change.address), [address(21)]);
+  assertEquals(result.held.map((held) => held.address), [address(22)]);
+});
+
+Deno.test("addresses whose score couldn't be fetched are left alone", async () => {
+  const result = await plan(
+    new Map([
+      [address(51), { score: 1000, authorized: true, ethosDown: true }],
+      [address(52), { score: 1500, authorized: false }],
+    ]),
+    { removalGraceMs: 0, maxRemovalPercent: 100 }
+  );
+
+  assertEquals(result.unknown, [address(51)]);
+  assertEquals(result.changes.map((change) => change.address), [address(52)]);
+  assertEquals(result.errors, ["Ethos scores unavailable for 1 addresses: Error: Ethos API error: 503"]);
+});
+
+Deno.test("the circuit breaker blocks a mass removal", async () => {
+  const result = await plan(
+    new Map([
+      [address(31), { score: 100, authorized: true }],
+      [address(32), { score: 100, authorized: true }],
+      [address(33), { score: 1500, authorized: true }],
+    ]),
+    { removalGraceMs: 0, maxRemovalPercent: 50 }
+  );
+
+  assertEquals(result.changes.length, 2);
+  assertEquals(
+    result.blocked,
+    "Circuit breaker: 2 of 3 authorized addresses (66.7%) would be removed, above the 50% limit"
+  );
+});
+
+Deno.test("a plan explains changes with the scores the last sync saw", async () => {
+  await kv.set(["whitelist_scores", address(41)], { score: 1500, checkedAt: "" });
+  await kv.set(["whitelist_scores", address(42)], { score: 1500, checkedAt: "" });
+  await kv.set(["whitelist_scores", address(43)], { score: 1000, checkedAt: "" });
+
+  const result = await plan(
+    new Map([
+      [address(41), { score: 1500, authorized: false }],
+      [address(42), { score: 1200, authorized: true }],
+      [address(43), { score: 1600, authorized: false }],
+    ]),
+    { removeBelowScore: 1300, removalGraceMs: 0, maxRemovalPercent: 100 }
+  );
+
+  assertEquals(result.changes.map(({ reason, previousScore }) => ({ reason, previousScore })), [
+    { reason: "missing_on_chain", previousScore: 1500 },
+    { reason: "score_change", previousScore: 1500 },
+    { reason: "score_change", previousScore: 1000 },
+  ]);
+});
+
+Deno.test("a blacklist restricts low scorers and leaves addresses without a score open", async () => {
+  const result = await plan(
+    new Map([
+      [address(81), { score: 500, authorized: true }],
+      [address(82), { authorized: true }],
+      [address(83), { score: 900, authorized: false }],
+    ]),
+    { policyType: "blacklist", blacklistBelowScore: 800, removalGraceMs: 0, maxRemovalPercent: 100 }
+  );
+
+  assertEquals(result.changes.map(({ address, allowed }) => ({ address, allowed })), [
+    { address: address(81), allowed: false },
+    { address: address(83), allowed: true },
+  ]);
+});
+
+Deno.test("a tier drops members that scored into a higher tier right away", async () => {
+  const result = await plan(
+    new Map([
+      [address(91), { score: 1700, authorized: true }],
+      [address(92), { score: 1500, authorized: true }],
+    ]),
+    { tier: { tier: "neutral", minScore: 1400, maxScore: 1600 }, removalGraceMs: 60_000, maxRemovalPercent: 0 }
+  );
+
+  assertEquals(result.changes.map(({ address, allowed, reason }) => ({ address, allowed, reason })), [
+    { address: address(91), allowed: false, reason: "above_max_score" },
+  ]);
+  // Tier promotions don't trip the circuit breaker
+  assertEquals(result.blocked, null);
+});
+
+Deno.test("an override wins over the score, without a grace period or the circuit breaker", async () => {
+  await setWhitelistOverride({ address: address(61), mode: "deny", note: "Known scammer", createdBy: "test" });
+  await setWhitelistOverride({ address: address(62), mode: "allow", note: "Fee AMM", createdBy: "test" });
+  try {
+    const result = await plan(
+      new Map([
+        [address(61), { score: 2000, authorized: true }],
+        [address(62), { authorized: false, ethosDown: true }],
+        [address(63), { score: 2000, authorized: true }],
+      ]),
+      { removalGraceMs: 60_000, maxRemovalPercent: 0 },
+      // Overridden addresses are synced even when they aren't candidates
+      [address(63)]
+    );
+
+    assertEquals(result.changes.map(({ address, allowed, reason, threshold }) => ({ address, allowed, reason, threshold })), [
+      { address: address(61), allowed: false, reason: "override", threshold: null },
+      { address: address(62), allowed: true, reason: "override", threshold: null },
+    ]);
+    assertEquals(result.unknown, []);
+    assertEquals(result.blocked, null);
+  } finally {
+    await removeWhitelistOverride(address(61));
+    await removeWhitelistOverride(address(62));
+  }
+});
+
+Deno.test("an expired override no longer applies", async () => {
+  // KV deletes expired overrides a while after they expire
+  const expired: WhitelistOverride = {
+    address: address(71),
+    mode: "allow",
+    note: "Partner trial",
+    expiresAt: new Date(Date.now() - 1000).toISOString(),
+    createdAt: new Date(Date.now() - 60_000).toISOString(),
+    createdBy: "test",
+  };
+  await kv.set(["whitelist_overrides", address(71)], expired);
+  try {
+    const result = await plan(
+      new Map([[address(71), { score: 100, authorized: false }]]),
+      { removalGraceMs: 0, maxRemovalPercent: 100 }
+    );
+    assertEquals(result.changes, []);
+  } finally {
+    await removeWhitelistOverride(address(71));
+  }
+});
+
+Deno.test("a sync without a list refuses to run before the first discovery", async () => {
+  await assertRejects(() => loadCandidateAddresses(145n), DiscoveryError, "candidate set is empty");
+});